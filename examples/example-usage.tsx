@@ -200,7 +200,6 @@ export function ServiceDashboard() {
   const handleControlAction = async (action: string, params: any) => {
     try {
       await sendControl({
-        method: 'POST',
         data: { action, params }
       });
     } catch (error) {
@@ -33,6 +33,28 @@ const testSchema = defineSchema({
       output: z.object({ id: z.string(), data: z.string() }),
       params: { id: z.string() },
     }),
+    '/items': httpRoute({
+      method: 'POST',
+      input: z.object({ input: z.string() }),
+      output: z.object({ id: z.string() }),
+    }),
+    '/items/<id>': httpRoute({
+      method: 'PUT',
+      input: z.object({ input: z.string() }),
+      output: z.object({ id: z.string() }),
+      params: { id: z.string() },
+    }),
+    '/items/<id>/name': httpRoute({
+      method: 'PATCH',
+      input: z.object({ input: z.string() }),
+      output: z.object({ id: z.string() }),
+      params: { id: z.string() },
+    }),
+    '/items/<id>/remove': httpRoute({
+      method: 'DELETE',
+      output: z.object({ deleted: z.boolean() }),
+      params: { id: z.string() },
+    }),
   },
 });
 
@@ -48,18 +70,30 @@ describe('DaebusClient', () => {
     mockHttpClient = {
       get: jest.fn(),
       post: jest.fn(),
+      put: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn(),
       request: jest.fn(),
+      use: jest.fn(),
       updateConfig: jest.fn(),
+      on: jest.fn(),
     } as any;
 
     mockWsClient = {
       connect: jest.fn(),
       disconnect: jest.fn(),
+      reconnect: jest.fn(),
       sendAction: jest.fn(),
+      streamAction: jest.fn(),
       subscribeToChannel: jest.fn(),
+      registerAction: jest.fn(),
       unsubscribeFromChannel: jest.fn(),
       broadcast: jest.fn(),
       isConnected: jest.fn(),
+      getLatency: jest.fn(),
+      isChannelStale: jest.fn(),
+      getCapabilities: jest.fn(),
+      registerSchema: jest.fn(() => jest.fn()),
       on: jest.fn(),
       off: jest.fn(),
       once: jest.fn(),
@@ -83,16 +117,33 @@ describe('DaebusClient', () => {
       expect(MockDaebusHttpClient).toHaveBeenCalledWith({
         baseUrl: 'http://localhost:8080',
         timeout: undefined,
+        attemptTimeout: undefined,
         retryAttempts: undefined,
         retryDelay: undefined,
+        retry: undefined,
         headers: undefined,
+        schema: testSchema,
+        validate: undefined,
+        middleware: undefined,
+        fetch: undefined,
+        auth: undefined,
       });
 
       expect(MockDaebusWebSocketClient).toHaveBeenCalledWith({
         url: 'ws://localhost:8081',
         timeout: undefined,
         maxReconnectAttempts: 5,
-        reconnectInterval: 5000,
+        reconnectInterval: undefined,
+        reconnect: undefined,
+        validate: undefined,
+        WebSocket: undefined,
+        heartbeat: undefined,
+        queue: undefined,
+        inFlightPolicy: undefined,
+        subscriptionAcks: undefined,
+        generateRequestId: undefined,
+        handshake: undefined,
+        auth: undefined,
       });
 
       expect(client.serviceName).toBe('test-service');
@@ -124,6 +175,23 @@ describe('DaebusClient', () => {
       expect(MockDaebusHttpClient).not.toHaveBeenCalled();
       expect(MockDaebusWebSocketClient).toHaveBeenCalled();
     });
+
+    it('should share one auth provider between HTTP and WebSocket', () => {
+      jest.clearAllMocks();
+      const token = jest.fn(() => 'token');
+      const auth = { token, transport: 'message' as const };
+
+      const _authClient = new DaebusClient({
+        serviceName: 'test-service',
+        httpBaseUrl: 'http://localhost:8080',
+        wsUrl: 'ws://localhost:8081',
+        autoConnect: false,
+        auth,
+      });
+
+      expect(MockDaebusHttpClient).toHaveBeenCalledWith(expect.objectContaining({ auth: token }));
+      expect(MockDaebusWebSocketClient).toHaveBeenCalledWith(expect.objectContaining({ auth }));
+    });
   });
 
   describe('HTTP methods', () => {
@@ -142,12 +210,28 @@ describe('DaebusClient', () => {
       const mockResponse = { data: 'response', status: 200 };
       mockHttpClient.post.mockResolvedValue(mockResponse);
 
-      const result = await client.post('/test', requestData);
+      const result = await client.post('/items', requestData);
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/test', requestData, {});
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/items', requestData, {});
       expect(result).toBe(mockResponse);
     });
 
+    it('should delegate PUT, PATCH and DELETE requests to HTTP client', async () => {
+      const requestData = { input: 'test' };
+      const params = { id: 'item-1' };
+      mockHttpClient.put.mockResolvedValue({ data: { id: 'item-1' }, status: 200 });
+      mockHttpClient.patch.mockResolvedValue({ data: { id: 'item-1' }, status: 200 });
+      mockHttpClient.delete.mockResolvedValue({ data: { deleted: true }, status: 200 });
+
+      await client.put('/items/<id>', requestData, { params });
+      await client.patch('/items/<id>/name', requestData, { params });
+      await client.delete('/items/<id>/remove', { params });
+
+      expect(mockHttpClient.put).toHaveBeenCalledWith('/items/<id>', requestData, { params });
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/items/<id>/name', requestData, { params });
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/items/<id>/remove', { params });
+    });
+
     it('should handle GET requests with parameters', async () => {
       const mockResponse = { data: { id: 'test-123', data: 'test' }, status: 200 };
       mockHttpClient.get.mockResolvedValue(mockResponse);
@@ -168,6 +252,9 @@ describe('DaebusClient', () => {
 
       await expect(wsOnlyClient.get('/test')).rejects.toThrow(DaebusConnectionError);
       await expect(wsOnlyClient.post('/test', {})).rejects.toThrow(DaebusConnectionError);
+      await expect(wsOnlyClient.put('/test', {})).rejects.toThrow(DaebusConnectionError);
+      await expect(wsOnlyClient.patch('/test', {})).rejects.toThrow(DaebusConnectionError);
+      await expect(wsOnlyClient.delete('/test')).rejects.toThrow(DaebusConnectionError);
       await expect(wsOnlyClient.request('/test')).rejects.toThrow(DaebusConnectionError);
     });
   });
@@ -187,6 +274,33 @@ describe('DaebusClient', () => {
       expect(mockWsClient.disconnect).toHaveBeenCalled();
     });
 
+    it('should expose the WebSocket connection state', () => {
+      mockWsClient.state = 'reconnecting';
+
+      expect(client.state).toBe('reconnecting');
+    });
+
+    it('should expose heartbeat latency from the WebSocket client', () => {
+      mockWsClient.getLatency.mockReturnValue(42);
+
+      expect(client.getLatency()).toBe(42);
+    });
+
+    it('should expose the capabilities from the WebSocket handshake', () => {
+      const capabilities = { protocol: 1, features: ['acks'], limits: {} };
+      mockWsClient.getCapabilities.mockReturnValue(capabilities);
+
+      expect(client.getCapabilities()).toBe(capabilities);
+    });
+
+    it('should delegate manual reconnection to WebSocket client', async () => {
+      mockWsClient.reconnect.mockResolvedValue(undefined);
+
+      await client.reconnect();
+
+      expect(mockWsClient.reconnect).toHaveBeenCalled();
+    });
+
     it('should delegate sendAction to WebSocket client', async () => {
       const mockResult = { output: 'test' };
       mockWsClient.sendAction.mockResolvedValue(mockResult);
@@ -202,13 +316,49 @@ describe('DaebusClient', () => {
       expect(result).toBe(mockResult);
     });
 
+    it('should delegate streamAction to WebSocket client', () => {
+      const stream = { result: Promise.resolve({}), [Symbol.asyncIterator]: jest.fn() };
+      mockWsClient.streamAction.mockReturnValue(stream);
+
+      const result = client.streamAction('test_action', { input: 'test' }, { timeout: 500 });
+
+      expect(mockWsClient.streamAction).toHaveBeenCalledWith(
+        'test-service',
+        'test_action',
+        { input: 'test' },
+        { timeout: 500 }
+      );
+      expect(result).toBe(stream);
+    });
+
     it('should delegate subscribe to WebSocket client', async () => {
       const handler = jest.fn();
-      mockWsClient.subscribeToChannel.mockResolvedValue(undefined);
+      const subscription = { channel: 'test_channel', active: true, unsubscribe: jest.fn() };
+      mockWsClient.subscribeToChannel.mockResolvedValue(subscription);
+
+      await expect(client.subscribe('test_channel', handler)).resolves.toBe(subscription);
+
+      expect(mockWsClient.subscribeToChannel).toHaveBeenCalledWith('test_channel', handler, 'test-service');
+    });
+
+    it('should register actions for its own service', async () => {
+      const registration = { action: 'confirm', active: true, unregister: jest.fn() };
+      mockWsClient.registerAction.mockResolvedValue(registration);
+      const input = z.object({});
+      const handler = jest.fn();
+
+      await expect(client.registerAction('confirm', input, handler)).resolves.toBe(registration);
+      expect(mockWsClient.registerAction).toHaveBeenCalledWith('test-service', 'confirm', input, handler);
+
+      client.dispose();
+      expect(registration.unregister).toHaveBeenCalled();
+    });
 
-      await client.subscribe('test_channel', handler);
+    it('should delegate isChannelStale to WebSocket client', () => {
+      mockWsClient.isChannelStale.mockReturnValue(true);
 
-      expect(mockWsClient.subscribeToChannel).toHaveBeenCalledWith('test_channel', handler);
+      expect(client.isChannelStale('test_channel')).toBe(true);
+      expect(mockWsClient.isChannelStale).toHaveBeenCalledWith('test_channel');
     });
 
     it('should delegate unsubscribe to WebSocket client', async () => {
@@ -264,12 +414,28 @@ describe('DaebusClient', () => {
       expect(mockHttpClient.updateConfig).toHaveBeenCalledWith({
         baseUrl: 'http://newhost:8080',
         timeout: 15000,
+        attemptTimeout: undefined,
         retryAttempts: undefined,
         retryDelay: undefined,
+        retry: undefined,
         headers: { 'Authorization': 'Bearer token' },
+        validate: undefined,
       });
     });
 
+    it('should add middleware and pass it on to clients for other services', () => {
+      const middleware = jest.fn();
+
+      expect(client.use(middleware)).toBe(client);
+      expect(mockHttpClient.use).toHaveBeenCalledWith(middleware);
+
+      client.forService('other-service');
+
+      expect(MockDaebusHttpClient).toHaveBeenLastCalledWith(
+        expect.objectContaining({ middleware: [middleware] })
+      );
+    });
+
     it('should create client for different service', () => {
       const newClient = client.forService('other-service');
 
@@ -278,6 +444,61 @@ describe('DaebusClient', () => {
     });
   });
 
+  describe('shared connection', () => {
+    it('should reuse the WebSocket client for forService clients', () => {
+      const otherSchema = defineSchema({ actions: {}, channels: {}, routes: {} });
+
+      client.forService('other-service', otherSchema);
+
+      expect(MockDaebusWebSocketClient).toHaveBeenCalledTimes(1);
+      expect(mockWsClient.registerSchema).toHaveBeenCalledWith('test-service', testSchema);
+      expect(mockWsClient.registerSchema).toHaveBeenCalledWith('other-service', otherSchema);
+    });
+
+    it('should not give the shared socket a schema for a forService client without one', async () => {
+      mockWsClient.subscribeToChannel.mockResolvedValue({ channel: 'alerts', active: true, unsubscribe: jest.fn() });
+      const other = client.forService('other-service');
+      const handler = jest.fn();
+
+      await other.subscribe('alerts', handler);
+
+      expect(MockDaebusWebSocketClient).toHaveBeenCalledWith(expect.not.objectContaining({ schema: expect.anything() }));
+      expect(mockWsClient.registerSchema).not.toHaveBeenCalledWith('other-service', expect.anything());
+      expect(mockWsClient.subscribeToChannel).toHaveBeenCalledWith('alerts', handler, 'other-service');
+    });
+
+    it('should disconnect only after the last client is disposed', () => {
+      const other = client.forService('other-service');
+
+      client.dispose();
+      expect(mockWsClient.disconnect).not.toHaveBeenCalled();
+
+      other.dispose();
+      expect(mockWsClient.disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release subscriptions and event listeners on dispose', async () => {
+      const subscription = { channel: 'test_channel', active: true, unsubscribe: jest.fn() };
+      mockWsClient.subscribeToChannel.mockResolvedValue(subscription);
+      await client.subscribe('test_channel', jest.fn());
+      const listeners = mockWsClient.on.mock.calls.length;
+
+      client.dispose();
+      client.dispose(); // Disposing twice is a no-op
+
+      expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+      expect(mockWsClient.off).toHaveBeenCalledTimes(listeners);
+      expect(client.isConnected()).toBe(false);
+      await expect(client.sendAction('test_action', { input: 'x' })).rejects.toThrow(DaebusConnectionError);
+    });
+
+    it('should not share connections between independent clients', () => {
+      new DaebusClient({ serviceName: 'other-service', wsUrl: 'ws://localhost:8081', autoConnect: false });
+
+      expect(MockDaebusWebSocketClient).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('connection utilities', () => {
     it('should wait for connection', async () => {
       mockWsClient.isConnected.mockReturnValue(true);
@@ -319,6 +540,13 @@ describe('DaebusClient', () => {
       expect(mockWsClient.on).toHaveBeenCalledWith('disconnect', expect.any(Function));
       expect(mockWsClient.on).toHaveBeenCalledWith('error', expect.any(Function));
       expect(mockWsClient.on).toHaveBeenCalledWith('message', expect.any(Function));
+      expect(mockWsClient.on).toHaveBeenCalledWith('invalid_message', expect.any(Function));
+      expect(mockWsClient.on).toHaveBeenCalledWith('gap', expect.any(Function));
+      expect(mockWsClient.on).toHaveBeenCalledWith('stale', expect.any(Function));
+    });
+
+    it('should proxy HTTP retry events', () => {
+      expect(mockHttpClient.on).toHaveBeenCalledWith('retry', expect.any(Function));
     });
   });
 }); 
\ No newline at end of file
@@ -1,18 +1,39 @@
 import { EventEmitter } from 'events';
-import { DaebusHttpClient } from '@/http/client';
-import { DaebusWebSocketClient } from '@/websocket/client';
+import { DaebusHttpClient, HttpRequestOptions } from '@/http/client';
+import { HttpMiddleware } from '@/http/middleware';
+import { ReconnectPolicy, RetryPolicy } from '@/utils/retry';
+import { RequestIdGenerator } from '@/utils/id';
+import { z } from 'zod';
+import {
+  ActionHandler,
+  ActionRegistration,
+  ActionRequestOptions,
+  DaebusWebSocketClient,
+  HeartbeatOptions,
+  InFlightPolicy,
+  Subscription,
+} from '@/websocket/client';
+import { WebSocketConstructor } from '@/websocket/transport';
+import { OutboundQueueOptions } from '@/websocket/queue';
+import { ActionStream } from '@/websocket/stream';
+import { WebSocketConnectionManager } from '@/websocket/manager';
+import { HandshakeOptions, ServerCapabilities } from '@/websocket/handshake';
+import { AuthOptions, AuthProvider, resolveAuth } from '@/utils/auth';
 import {
   ServiceSchema,
   ServiceActions,
   ServiceChannels,
   ServiceRoutes,
+  RoutesWithMethod,
   ActionInput,
   ActionOutput,
+  ActionProgress,
   ChannelData,
+  ChannelHandler,
   RouteInput,
   RouteOutput,
-  RouteParams,
   HttpResponse,
+  ConnectionState,
   DaebusConnectionError,
 } from '@/types';
 
@@ -21,47 +42,120 @@ export interface DaebusClientOptions<T extends ServiceSchema = ServiceSchema> {
   httpBaseUrl?: string;
   wsUrl?: string;
   timeout?: number;
+  attemptTimeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  retry?: RetryPolicy;
+  /** WebSocket reconnection; `maxAttempts` defaults to `retryAttempts` */
+  reconnect?: ReconnectPolicy;
   headers?: Record<string, string>;
   autoConnect?: boolean;
   schema?: T;
+  validate?: boolean;
+  middleware?: HttpMiddleware[];
+  /** fetch implementation for HTTP requests; defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** WebSocket implementation; defaults to the native WebSocket, then `ws` */
+  WebSocket?: WebSocketConstructor;
+  /** WebSocket ping/pong liveness checks; off by default */
+  heartbeat?: HeartbeatOptions;
+  /** Buffer WebSocket messages sent while connecting or reconnecting; off by default */
+  queue?: OutboundQueueOptions;
+  /** Handling of actions awaiting a reply when the socket closes unexpectedly ('reject') */
+  inFlightPolicy?: InFlightPolicy;
+  /** Wait for the server's `subscribed` ack before resolving a subscription (true) */
+  subscriptionAcks?: boolean;
+  /** Generates WebSocket request IDs; random UUIDv4 by default */
+  generateRequestId?: RequestIdGenerator;
+  /** Negotiate the protocol version with a `hello` exchange on connect; off by default */
+  handshake?: boolean | HandshakeOptions;
+  /** Credentials for both transports: the HTTP Authorization header and the WebSocket connection */
+  auth?: AuthProvider | AuthOptions;
+  /** Share WebSocket connections with other clients; forService clients share their parent's */
+  connections?: WebSocketConnectionManager;
 }
 
+// WebSocket client events re-emitted by DaebusClient
+const WEBSOCKET_EVENTS = [
+  'connect',
+  'disconnect',
+  'error',
+  'message',
+  'invalid_message',
+  'reconnecting',
+  'latency',
+  'stateChange',
+  'subscription_error',
+  'gap',
+  'stale',
+] as const;
+
 export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends EventEmitter {
   private httpClient?: DaebusHttpClient<T>;
   private wsClient?: DaebusWebSocketClient<T>;
+  private connections: WebSocketConnectionManager;
+  private wsListeners: Array<[string, (...args: unknown[]) => void]> = [];
+  // Released on dispose so handlers don't outlive the client on a shared socket
+  private subscriptions = new Set<Subscription>();
+  private registrations = new Set<ActionRegistration>();
+  private unregisterSchema?: () => void;
   public readonly serviceName: string;
 
   constructor(private options: DaebusClientOptions<T>) {
     super();
     this.serviceName = options.serviceName;
+    this.connections = options.connections ?? new WebSocketConnectionManager();
 
     // Initialize HTTP client if URL provided
     if (options.httpBaseUrl) {
       this.httpClient = new DaebusHttpClient<T>({
         baseUrl: options.httpBaseUrl,
         timeout: options.timeout,
+        attemptTimeout: options.attemptTimeout,
         retryAttempts: options.retryAttempts,
         retryDelay: options.retryDelay,
+        retry: options.retry,
         headers: options.headers,
+        schema: options.schema,
+        validate: options.validate,
+        middleware: options.middleware,
+        fetch: options.fetch,
+        auth: options.auth && resolveAuth(options.auth).token,
       });
+
+      this.httpClient.on('retry', (event) => this.emit('retry', event));
     }
 
-    // Initialize WebSocket client if URL provided
+    // Initialize WebSocket client if URL provided, shared with other clients on the same URL
     if (options.wsUrl) {
-      this.wsClient = new DaebusWebSocketClient<T>({
+      this.wsClient = this.connections.acquire<T>({
         url: options.wsUrl,
         timeout: options.timeout,
         maxReconnectAttempts: options.retryAttempts ?? 5,
-        reconnectInterval: options.retryDelay ?? 5000,
+        reconnectInterval: options.retryDelay,
+        reconnect: options.reconnect,
+        validate: options.validate,
+        WebSocket: options.WebSocket,
+        heartbeat: options.heartbeat,
+        queue: options.queue,
+        inFlightPolicy: options.inFlightPolicy,
+        subscriptionAcks: options.subscriptionAcks,
+        generateRequestId: options.generateRequestId,
+        handshake: options.handshake,
+        auth: options.auth,
       });
 
+      // Registered rather than passed in, since the socket may serve other services
+      if (options.schema) {
+        this.unregisterSchema = this.wsClient.registerSchema(this.serviceName, options.schema);
+      }
+
       // Proxy WebSocket events
-      this.wsClient.on('connect', () => this.emit('connect'));
-      this.wsClient.on('disconnect', (code, reason) => this.emit('disconnect', code, reason));
-      this.wsClient.on('error', (error) => this.emit('error', error));
-      this.wsClient.on('message', (data) => this.emit('message', data));
+      for (const event of WEBSOCKET_EVENTS) {
+        const listener = (...args: unknown[]) => this.emit(event, ...args);
+        this.wsClient.on(event, listener);
+        this.wsListeners.push([event, listener]);
+      }
 
       // Auto-connect if enabled
       if (options.autoConnect !== false) {
@@ -76,16 +170,21 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
    * HTTP Methods
    */
 
+  /**
+   * Add an HTTP middleware. Clients created with forService inherit it.
+   */
+  use(middleware: HttpMiddleware): this {
+    this.options.middleware = [...(this.options.middleware ?? []), middleware];
+    this.httpClient?.use(middleware);
+    return this;
+  }
+
   /**
    * Make an HTTP GET request to a service route
    */
-  async get<R extends ServiceRoutes<T>>(
+  async get<R extends RoutesWithMethod<T, 'GET'>>(
     route: R,
-    options: {
-      params?: RouteParams<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    } = {}
+    options: HttpRequestOptions<T, R> = {}
   ): Promise<HttpResponse<RouteOutput<T, R>>> {
     if (!this.httpClient) {
       throw new DaebusConnectionError('HTTP client not configured. Provide httpBaseUrl in options.');
@@ -96,14 +195,10 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
   /**
    * Make an HTTP POST request to a service route
    */
-  async post<R extends ServiceRoutes<T>>(
+  async post<R extends RoutesWithMethod<T, 'POST'>>(
     route: R,
     data: RouteInput<T, R>,
-    options: {
-      params?: RouteParams<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    } = {}
+    options: HttpRequestOptions<T, R> = {}
   ): Promise<HttpResponse<RouteOutput<T, R>>> {
     if (!this.httpClient) {
       throw new DaebusConnectionError('HTTP client not configured. Provide httpBaseUrl in options.');
@@ -112,16 +207,52 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
   }
 
   /**
-   * Make a general HTTP request to a service route
+   * Make an HTTP PUT request to a service route
+   */
+  async put<R extends RoutesWithMethod<T, 'PUT'>>(
+    route: R,
+    data: RouteInput<T, R>,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    if (!this.httpClient) {
+      throw new DaebusConnectionError('HTTP client not configured. Provide httpBaseUrl in options.');
+    }
+    return this.httpClient.put(route, data, options);
+  }
+
+  /**
+   * Make an HTTP PATCH request to a service route
+   */
+  async patch<R extends RoutesWithMethod<T, 'PATCH'>>(
+    route: R,
+    data: RouteInput<T, R>,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    if (!this.httpClient) {
+      throw new DaebusConnectionError('HTTP client not configured. Provide httpBaseUrl in options.');
+    }
+    return this.httpClient.patch(route, data, options);
+  }
+
+  /**
+   * Make an HTTP DELETE request to a service route
+   */
+  async delete<R extends RoutesWithMethod<T, 'DELETE'>>(
+    route: R,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    if (!this.httpClient) {
+      throw new DaebusConnectionError('HTTP client not configured. Provide httpBaseUrl in options.');
+    }
+    return this.httpClient.delete(route, options);
+  }
+
+  /**
+   * Make an HTTP request to a service route using the method declared in the schema
    */
   async request<R extends ServiceRoutes<T>>(
     route: R,
-    options: {
-      params?: RouteParams<T, R>;
-      data?: RouteInput<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    } = {}
+    options: HttpRequestOptions<T, R> & { data?: RouteInput<T, R> } = {}
   ): Promise<HttpResponse<RouteOutput<T, R>>> {
     if (!this.httpClient) {
       throw new DaebusConnectionError('HTTP client not configured. Provide httpBaseUrl in options.');
@@ -144,7 +275,8 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
   }
 
   /**
-   * Disconnect from WebSocket server
+   * Disconnect from WebSocket server. The connection may be shared with
+   * clients created by forService; use dispose() to release only this one.
    */
   disconnect(): void {
     if (this.wsClient) {
@@ -153,34 +285,86 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
   }
 
   /**
-   * Send an action request via WebSocket
+   * Reconnect to the WebSocket server now, skipping any pending backoff delay
+   */
+  async reconnect(): Promise<void> {
+    if (!this.wsClient) {
+      throw new DaebusConnectionError('WebSocket client not configured. Provide wsUrl in options.');
+    }
+    return this.wsClient.reconnect();
+  }
+
+  /**
+   * Send an action request via WebSocket. Accepts a timeout or an options
+   * object with a timeout and an AbortSignal.
    */
   async sendAction<A extends ServiceActions<T>>(
     action: A,
     payload: ActionInput<T, A>,
-    timeout?: number
+    options?: number | ActionRequestOptions<ActionProgress<T, A>>
   ): Promise<ActionOutput<T, A>> {
     if (!this.wsClient) {
       throw new DaebusConnectionError('WebSocket client not configured. Provide wsUrl in options.');
     }
-    return this.wsClient.sendAction(this.serviceName, action, payload, timeout);
+    return this.wsClient.sendAction(this.serviceName, action, payload, options);
   }
 
   /**
-   * Subscribe to a broadcast channel
+   * Send an action that streams progress updates before its result
+   */
+  streamAction<A extends ServiceActions<T>>(
+    action: A,
+    payload: ActionInput<T, A>,
+    options?: number | ActionRequestOptions<ActionProgress<T, A>>
+  ): ActionStream<ActionProgress<T, A>, ActionOutput<T, A>> {
+    if (!this.wsClient) {
+      throw new DaebusConnectionError('WebSocket client not configured. Provide wsUrl in options.');
+    }
+    return this.wsClient.streamAction(this.serviceName, action, payload, options);
+  }
+
+  /**
+   * Subscribe to a broadcast channel or a pattern such as `device.*.status`.
+   * The handler receives the data and the concrete channel name. Release the
+   * handler with the returned subscription; other handlers are unaffected.
    */
   async subscribe<C extends ServiceChannels<T>>(
     channel: C,
-    handler: (data: ChannelData<T, C>) => void
-  ): Promise<void> {
+    handler: ChannelHandler<T, C>
+  ): Promise<Subscription> {
     if (!this.wsClient) {
       throw new DaebusConnectionError('WebSocket client not configured. Provide wsUrl in options.');
     }
-    return this.wsClient.subscribeToChannel(channel, handler);
+    const subscription = await this.wsClient.subscribeToChannel(channel, handler, this.serviceName);
+    for (const existing of this.subscriptions) {
+      if (!existing.active) {
+        this.subscriptions.delete(existing);
+      }
+    }
+    this.subscriptions.add(subscription);
+    return subscription;
   }
 
   /**
-   * Unsubscribe from a broadcast channel
+   * Answer requests for an action of this service, so the client can act as
+   * a Daebus service. The handler's result, or the error it throws, is sent
+   * back on the request's reply channel.
+   */
+  async registerAction<I extends z.ZodSchema, O>(
+    action: string,
+    input: I,
+    handler: ActionHandler<z.infer<I>, O>
+  ): Promise<ActionRegistration> {
+    if (!this.wsClient) {
+      throw new DaebusConnectionError('WebSocket client not configured. Provide wsUrl in options.');
+    }
+    const registration = await this.wsClient.registerAction(this.serviceName, action, input, handler);
+    this.registrations.add(registration);
+    return registration;
+  }
+
+  /**
+   * Unsubscribe every handler from a broadcast channel
    */
   async unsubscribe<C extends ServiceChannels<T>>(channel: C): Promise<void> {
     if (!this.wsClient) {
@@ -209,18 +393,51 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
     return this.wsClient?.isConnected() ?? false;
   }
 
+  /**
+   * WebSocket connection state; 'idle' when no WebSocket is configured
+   */
+  get state(): ConnectionState {
+    return this.wsClient?.state ?? 'idle';
+  }
+
+  /**
+   * Whether messages on a subscribed channel may have been missed while the
+   * connection was down
+   */
+  isChannelStale<C extends ServiceChannels<T>>(channel: C): boolean {
+    return this.wsClient?.isChannelStale(String(channel)) ?? false;
+  }
+
+  /**
+   * Capabilities the server announced in the WebSocket handshake, or null
+   * before it completes or when the handshake is off
+   */
+  getCapabilities(): ServerCapabilities | null {
+    return this.wsClient?.getCapabilities() ?? null;
+  }
+
+  /**
+   * Round-trip time of the last WebSocket heartbeat in ms, or null if unknown
+   */
+  getLatency(): number | null {
+    return this.wsClient?.getLatency() ?? null;
+  }
+
   /**
    * Update client configuration
    */
   updateConfig(options: Partial<DaebusClientOptions<T>>): void {
     // Update HTTP client config
-    if (this.httpClient && (options.httpBaseUrl || options.timeout || options.retryAttempts || options.retryDelay || options.headers)) {
+    if (this.httpClient && (options.httpBaseUrl || options.timeout || options.attemptTimeout || options.retryAttempts || options.retryDelay || options.retry || options.headers || options.validate !== undefined)) {
       this.httpClient.updateConfig({
         baseUrl: options.httpBaseUrl || this.options.httpBaseUrl!,
         timeout: options.timeout,
+        attemptTimeout: options.attemptTimeout,
         retryAttempts: options.retryAttempts,
         retryDelay: options.retryDelay,
+        retry: options.retry,
         headers: options.headers,
+        validate: options.validate,
       });
     }
 
@@ -229,7 +446,8 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
   }
 
   /**
-   * Create a new client for a different service using the same configuration
+   * Create a new client for a different service using the same configuration.
+   * Both clients share one WebSocket connection.
    */
   forService<U extends ServiceSchema = ServiceSchema>(
     serviceName: string,
@@ -239,9 +457,38 @@ export class DaebusClient<T extends ServiceSchema = ServiceSchema> extends Event
       ...this.options,
       serviceName,
       schema,
+      connections: this.connections,
     });
   }
 
+  /**
+   * Release this client's channel subscriptions, registered actions and its
+   * share of the WebSocket connection. The connection closes once every
+   * client sharing it has been disposed.
+   */
+  dispose(): void {
+    if (!this.wsClient) {
+      return;
+    }
+
+    for (const subscription of this.subscriptions) {
+      subscription.unsubscribe();
+    }
+    this.subscriptions.clear();
+    for (const registration of this.registrations) {
+      registration.unregister();
+    }
+    this.registrations.clear();
+    this.unregisterSchema?.();
+    for (const [event, listener] of this.wsListeners) {
+      this.wsClient.off(event, listener);
+    }
+    this.wsListeners = [];
+
+    this.connections.release(this.wsClient);
+    this.wsClient = undefined;
+  }
+
   /**
    * Utility method to wait for connection
    */
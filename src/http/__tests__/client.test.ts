@@ -1,8 +1,17 @@
-import { DaebusHttpClient } from '../client';
+import { z } from 'zod';
+import { DaebusHttpClient, DEADLINE_HEADER } from '../client';
 import {
   DaebusError,
+  DaebusAbortError,
+  DaebusNotFoundError,
   DaebusConnectionError,
+  DaebusTimeoutError,
+  DaebusValidationError,
 } from '../../types';
+import { defineSchema, httpRoute, CommonSchemas } from '../../utils/schema';
+
+// Keep the real AbortController for caller-supplied signals
+const RealAbortController = global.AbortController;
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -44,6 +53,25 @@ describe('DaebusHttpClient', () => {
       });
       expect(clientWithSlash).toBeInstanceOf(DaebusHttpClient);
     });
+
+    it('should use a custom fetch implementation instead of the global one', async () => {
+      const customFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ message: 'custom' }),
+        headers: new Map(),
+      });
+      const customClient = new DaebusHttpClient({
+        baseUrl: 'http://localhost:8080',
+        fetch: customFetch as unknown as typeof fetch,
+      });
+
+      const result = await customClient.get('/test');
+
+      expect(customFetch).toHaveBeenCalledWith('http://localhost:8080/test', expect.any(Object));
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.data).toEqual({ message: 'custom' });
+    });
   });
 
   describe('get', () => {
@@ -109,6 +137,54 @@ describe('DaebusHttpClient', () => {
     });
   });
 
+  describe('error responses', () => {
+    it('should raise a typed error with the parsed server body', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({ error: 'Device not found', code: 'NO_DEVICE' }),
+        headers: new Map([['content-type', 'application/json']]),
+      } as any);
+
+      const promise = client.get('/devices/missing');
+
+      await expect(promise).rejects.toThrow(DaebusNotFoundError);
+      await expect(promise).rejects.toMatchObject({
+        status: 404,
+        serverCode: 'NO_DEVICE',
+        body: { error: 'Device not found', code: 'NO_DEVICE' },
+        headers: { 'content-type': 'application/json' },
+      });
+    });
+
+    it('should parse error bodies with the route errors schema', async () => {
+      const schema = defineSchema({
+        actions: {},
+        channels: {},
+        routes: {
+          '/control': httpRoute({
+            method: 'POST',
+            input: z.object({ action: z.string() }),
+            output: z.object({ ok: z.boolean() }),
+            errors: z.object({ reason: z.string(), retryable: z.boolean().default(false) }),
+          }),
+        },
+      });
+      const typedClient = new DaebusHttpClient({ baseUrl: 'http://localhost:8080', schema });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        text: async () => JSON.stringify({ reason: 'busy' }),
+        headers: new Map(),
+      } as any);
+
+      await expect(typedClient.post('/control', { action: 'reboot' })).rejects.toMatchObject({
+        status: 409,
+        body: { reason: 'busy', retryable: false },
+      });
+    });
+  });
+
   describe('post', () => {
     it('should make a successful POST request', async () => {
       const requestData = { action: 'test' };
@@ -138,6 +214,29 @@ describe('DaebusHttpClient', () => {
     });
   });
 
+  describe('empty responses', () => {
+    it('should resolve a 204 No Content reply without parsing it', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      const result = await client.delete('/devices/<device_id>', { params: { device_id: 'device-1' } });
+
+      expect(result.status).toBe(204);
+      expect(result.data).toBeUndefined();
+    });
+
+    it('should resolve an empty body announced by Content-Length', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('', { status: 200, headers: { 'Content-Length': '0' } })
+      );
+
+      const result = await client.put('/devices/<device_id>', { name: 'Sensor' }, {
+        params: { device_id: 'device-1' },
+      });
+
+      expect(result.data).toBeUndefined();
+    });
+  });
+
   describe('request', () => {
     it('should handle custom headers', async () => {
       const mockResponse = { data: 'test' };
@@ -173,6 +272,483 @@ describe('DaebusHttpClient', () => {
     });
   });
 
+  describe('schema methods', () => {
+    const schema = defineSchema({
+      actions: {},
+      channels: {},
+      routes: {
+        '/devices': httpRoute({
+          method: 'GET',
+          output: z.array(z.string()),
+        }),
+        '/devices/<id>': httpRoute({
+          method: 'PUT',
+          input: z.object({ name: z.string() }),
+          output: z.object({ id: z.string() }),
+          params: { id: z.string() },
+        }),
+        '/devices/<id>/remove': httpRoute({
+          method: 'DELETE',
+          output: z.object({ deleted: z.boolean() }),
+          params: { id: z.string() },
+        }),
+      },
+    });
+
+    let typedClient: DaebusHttpClient<typeof schema>;
+
+    beforeEach(() => {
+      typedClient = new DaebusHttpClient({
+        baseUrl: 'http://localhost:8080',
+        schema,
+      });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({}),
+        headers: new Map(),
+      } as any);
+    });
+
+    it('should use the method declared by the route in request()', async () => {
+      await typedClient.request('/devices');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/devices',
+        expect.objectContaining({ method: 'GET', body: undefined })
+      );
+
+      await typedClient.request('/devices/<id>', {
+        params: { id: 'dev-1' },
+        data: { name: 'sensor' },
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/devices/dev-1',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ name: 'sensor' }) })
+      );
+    });
+
+    it('should fall back to POST for routes missing from the schema', async () => {
+      await client.request('/unknown');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/unknown',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should send PUT, PATCH and DELETE requests', async () => {
+      await client.put('/devices/1', { name: 'a' });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/devices/1',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ name: 'a' }) })
+      );
+
+      await client.patch('/devices/1', { name: 'b' });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/devices/1',
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ name: 'b' }) })
+      );
+
+      await typedClient.delete('/devices/<id>/remove', { params: { id: 'dev-1' } });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/devices/dev-1/remove',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('validation', () => {
+    const schema = defineSchema({
+      actions: {},
+      channels: {},
+      routes: {
+        '/devices/<id>': httpRoute({
+          method: 'POST',
+          input: z.object({ name: z.string(), enabled: z.boolean().default(true) }),
+          output: z.object({ id: z.string() }),
+          params: { id: z.string().min(3) },
+        }),
+      },
+    });
+
+    let validatingClient: DaebusHttpClient<typeof schema>;
+
+    beforeEach(() => {
+      validatingClient = new DaebusHttpClient({
+        baseUrl: 'http://localhost:8080',
+        schema,
+        validate: true,
+      });
+    });
+
+    it('should parse the request body with the input schema', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'dev-1' }),
+        headers: new Map(),
+      } as any);
+
+      await validatingClient.post('/devices/<id>', { name: 'sensor' } as any, {
+        params: { id: 'dev-1' },
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/devices/dev-1',
+        expect.objectContaining({
+          body: JSON.stringify({ name: 'sensor', enabled: true }),
+        })
+      );
+    });
+
+    it('should reject invalid request bodies before sending', async () => {
+      const promise = validatingClient.post('/devices/<id>', { name: 42 } as any, {
+        params: { id: 'dev-1' },
+      });
+
+      await expect(promise).rejects.toThrow(DaebusValidationError);
+      await expect(promise).rejects.toMatchObject({ side: 'request' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid path params', async () => {
+      await expect(
+        validatingClient.post('/devices/<id>', { name: 'sensor', enabled: true }, {
+          params: { id: 'x' },
+        })
+      ).rejects.toMatchObject({ side: 'request', code: 'VALIDATION_ERROR' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject responses that do not match the output schema', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 123 }),
+        headers: new Map(),
+      } as any);
+
+      const promise = validatingClient.post('/devices/<id>', { name: 'sensor', enabled: true }, {
+        params: { id: 'dev-1' },
+      });
+
+      await expect(promise).rejects.toThrow(DaebusValidationError);
+      await expect(promise).rejects.toMatchObject({
+        side: 'response',
+        issues: [expect.objectContaining({ path: ['id'] })],
+      });
+    });
+
+    it('should allow disabling validation per call', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 123 }),
+        headers: new Map(),
+      } as any);
+
+      const result = await validatingClient.post('/devices/<id>', { name: 42 } as any, {
+        params: { id: 'x' },
+        validate: false,
+      });
+
+      expect(result.data).toEqual({ id: 123 });
+    });
+
+    it('should not validate unless enabled', async () => {
+      const plainClient = new DaebusHttpClient({ baseUrl: 'http://localhost:8080', schema });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 123 }),
+        headers: new Map(),
+      } as any);
+
+      const result = await plainClient.post('/devices/<id>', { name: 'sensor', enabled: true }, {
+        params: { id: 'dev-1' },
+      });
+
+      expect(result.data).toEqual({ id: 123 });
+    });
+  });
+
+  describe('query parameters', () => {
+    const schema = defineSchema({
+      actions: {},
+      channels: {},
+      routes: {
+        '/devices': httpRoute({
+          method: 'GET',
+          output: z.array(z.string()),
+          query: CommonSchemas.paginationQuery.extend({
+            status: z.array(z.string()).optional(),
+          }),
+        }),
+      },
+    });
+
+    let typedClient: DaebusHttpClient<typeof schema>;
+
+    beforeEach(() => {
+      typedClient = new DaebusHttpClient({ baseUrl: 'http://localhost:8080', schema });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => [],
+        headers: new Map(),
+      } as any);
+    });
+
+    it('should apply schema defaults before serializing', async () => {
+      await typedClient.get('/devices', { query: { limit: 25, status: ['online', 'error'] } });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/devices?page=1&limit=25&order=asc&status=online&status=error',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should apply defaults when no query is given', async () => {
+      await typedClient.get('/devices');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/devices?page=1&limit=10&order=asc',
+        expect.any(Object)
+      );
+    });
+
+    it('should reject invalid queries when validating', async () => {
+      await expect(
+        typedClient.get('/devices', { query: { limit: 500 }, validate: true })
+      ).rejects.toThrow(DaebusValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should serialize queries for routes without a query schema', async () => {
+      await client.get('/search?fields=id', { query: { q: 'sensor', active: true } });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/search?fields=id&q=sensor&active=true',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('middleware', () => {
+    const okResponse = (data: unknown) => ({
+      ok: true,
+      status: 200,
+      json: async () => data,
+      headers: new Map(),
+    } as any);
+
+    it('should run middleware in order around the request', async () => {
+      const calls: string[] = [];
+      mockFetch.mockResolvedValueOnce(okResponse({ value: 1 }));
+
+      client
+        .use(async (request, next) => {
+          calls.push('first:before');
+          const response = await next(request);
+          calls.push('first:after');
+          return response;
+        })
+        .use(async (request, next) => {
+          calls.push('second:before');
+          const response = await next(request);
+          calls.push('second:after');
+          return response;
+        });
+
+      await client.get('/test');
+
+      expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+    });
+
+    it('should let middleware modify the outgoing request', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({}));
+      client.use((request, next) => next({
+        ...request,
+        headers: { ...request.headers, Authorization: 'Bearer token' },
+        body: { ...(request.body as object), traced: true },
+      }));
+
+      await client.post('/control', { action: 'test' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/control',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+          body: JSON.stringify({ action: 'test', traced: true }),
+        })
+      );
+    });
+
+    it('should allow middleware to short-circuit with a response', async () => {
+      client.use(async () => ({ data: { cached: true }, status: 200 }));
+
+      const result = await client.request('/test');
+
+      expect(result.data).toEqual({ cached: true });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should transform responses before output validation', async () => {
+      const schema = defineSchema({
+        actions: {},
+        channels: {},
+        routes: {
+          '/status': httpRoute({ method: 'GET', output: z.object({ up: z.boolean() }) }),
+        },
+      });
+      const unwrapping = new DaebusHttpClient({
+        baseUrl: 'http://localhost:8080',
+        schema,
+        validate: true,
+        middleware: [
+          async (request, next) => {
+            const response = await next(request);
+            return { ...response, data: (response.data as { result: unknown }).result };
+          },
+        ],
+      });
+      mockFetch.mockResolvedValueOnce(okResponse({ result: { up: true } }));
+
+      const result = await unwrapping.get('/status');
+
+      expect(result.data).toEqual({ up: true });
+    });
+
+    it('should let middleware catch and rethrow errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: async () => 'Unauthorized',
+        headers: new Map(),
+      } as any);
+      client.use(async (request, next) => {
+        try {
+          return await next(request);
+        } catch (error) {
+          throw new DaebusError('Session expired', 'AUTH', error);
+        }
+      });
+
+      await expect(client.get('/test')).rejects.toMatchObject({
+        message: 'Session expired',
+        code: 'AUTH',
+      });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject without sending when the signal is already aborted', async () => {
+      const controller = new RealAbortController();
+      controller.abort();
+
+      await expect(client.get('/test', { signal: controller.signal }))
+        .rejects.toThrow(DaebusAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should raise DaebusAbortError when the caller aborts mid-request', async () => {
+      const controller = new RealAbortController();
+      mockFetch.mockImplementationOnce(() => new Promise((_resolve, reject) => {
+        controller.signal.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted', 'AbortError'));
+        });
+      }));
+
+      const promise = client.get('/test', { signal: controller.signal });
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(DaebusAbortError);
+      await expect(promise).rejects.not.toThrow(DaebusTimeoutError);
+    });
+
+  });
+
+  describe('timeouts and deadlines', () => {
+    // Resolve only if the request isn't aborted within `after` ms
+    const slowFetch = (after: number, data: unknown = {}) =>
+      (_url: unknown, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(() => resolve({
+          ok: true,
+          status: 200,
+          json: async () => data,
+          headers: new Map(),
+        } as any), after);
+        init?.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('The operation was aborted', 'AbortError'));
+        });
+      });
+
+    beforeEach(() => {
+      global.AbortController = RealAbortController;
+    });
+
+    afterEach(() => {
+      global.AbortController = jest.fn(() => ({
+        signal: {},
+        abort: jest.fn(),
+      })) as any;
+    });
+
+    it('should send the remaining deadline as a header', async () => {
+      mockFetch.mockImplementationOnce(slowFetch(0));
+
+      await client.get('/test', { deadline: 2000 });
+
+      const headers = mockFetch.mock.calls[0][1]?.headers as Record<string, string>;
+      expect(Number(headers[DEADLINE_HEADER])).toBeGreaterThan(1900);
+      expect(Number(headers[DEADLINE_HEADER])).toBeLessThanOrEqual(2000);
+    });
+
+    it('should retry an attempt that exceeds attemptTimeout', async () => {
+      mockFetch
+        .mockImplementationOnce(slowFetch(1000))
+        .mockImplementationOnce(slowFetch(0, { ok: true }));
+      jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      const result = await client.get('/test', { attemptTimeout: 20, deadline: 2000 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.data).toEqual({ ok: true });
+    });
+
+    it('should report the attempt limit when the last attempt times out', async () => {
+      mockFetch.mockImplementation(slowFetch(1000));
+      jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      await expect(
+        client.get('/test', { attemptTimeout: 20, deadline: 2000 })
+      ).rejects.toMatchObject({ name: 'DaebusTimeoutError', limit: 'attempt', attempts: 2 });
+    });
+
+    it('should report the deadline limit when the overall budget runs out', async () => {
+      mockFetch.mockImplementation(slowFetch(1000));
+
+      const promise = client.get('/test', { deadline: 30 });
+
+      await expect(promise).rejects.toThrow(DaebusTimeoutError);
+      await expect(promise).rejects.toMatchObject({ limit: 'deadline', attempts: 1 });
+    });
+
+    it('should not start a backoff that would overrun the deadline', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        text: async () => 'Unavailable',
+        headers: new Map([['Retry-After', '5']]),
+      } as any);
+      const delaySpy = jest.spyOn(client as any, 'delay');
+
+      await expect(client.get('/test', { deadline: 1000 })).rejects.toThrow('HTTP 503');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(delaySpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('retry logic', () => {
     it('should retry on network failure', async () => {
       // First call fails, second succeeds
@@ -201,6 +777,154 @@ describe('DaebusHttpClient', () => {
       await expect(client.get('/test')).rejects.toThrow('Network error');
       expect(mockFetch).toHaveBeenCalledTimes(2); // Initial + 1 retry (retryAttempts: 2)
     });
+
+    it('should retry retryable status codes', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          text: async () => 'Unavailable',
+          headers: new Map(),
+        } as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ success: true }),
+          headers: new Map(),
+        } as any);
+      jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      const result = await client.get('/test');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.data).toEqual({ success: true });
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => 'Bad Request',
+        headers: new Map(),
+      } as any);
+
+      await expect(client.get('/test')).rejects.toThrow('HTTP 400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry non-idempotent methods by default', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      await expect(client.post('/control', { action: 'test' })).rejects.toThrow('Network error');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry other methods when the policy allows it', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      await expect(
+        client.post('/control', { action: 'test' }, { retry: { methods: ['POST'] } })
+      ).rejects.toThrow('Network error');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honor Retry-After and emit retry events', async () => {
+      const retryClient = new DaebusHttpClient({
+        baseUrl: 'http://localhost:8080',
+        retry: { maxAttempts: 2, maxDelay: 10000 },
+      });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          text: async () => 'Too Many Requests',
+          headers: new Map([['Retry-After', '2']]),
+        } as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({}),
+          headers: new Map(),
+        } as any);
+      const delaySpy = jest.spyOn(retryClient as any, 'delay').mockResolvedValue(undefined);
+      const retrySpy = jest.fn();
+      retryClient.on('retry', retrySpy);
+
+      await retryClient.get('/test');
+
+      expect(delaySpy).toHaveBeenCalledWith(2000, undefined);
+      expect(retrySpy).toHaveBeenCalledWith({
+        method: 'GET',
+        url: 'http://localhost:8080/test',
+        attempt: 1,
+        delay: 2000,
+        status: 429,
+      });
+    });
+  });
+
+  describe('authentication', () => {
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({}),
+      headers: new Map(),
+    } as any);
+
+    it('should send the provider token as a bearer Authorization header', async () => {
+      const auth = jest.fn().mockResolvedValueOnce('token-1').mockResolvedValueOnce('token-2');
+      const authClient = new DaebusHttpClient({ baseUrl: 'http://localhost:8080', auth });
+      mockFetch.mockResolvedValue(okResponse());
+
+      await authClient.get('/status');
+      await authClient.get('/status');
+
+      expect(auth).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:8080/status',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer token-2' }),
+        })
+      );
+    });
+
+    it('should let a call set the Authorization header without asking the provider', async () => {
+      const auth = jest.fn(() => Promise.reject(new Error('no session')));
+      const authClient = new DaebusHttpClient({ baseUrl: 'http://localhost:8080', auth });
+      mockFetch.mockResolvedValue(okResponse());
+
+      await authClient.get('/status', { headers: { authorization: 'Basic abc' } });
+
+      expect(auth).not.toHaveBeenCalled();
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init?.headers).toMatchObject({ authorization: 'Basic abc' });
+      expect(init?.headers).not.toHaveProperty('Authorization');
+    });
+
+    it('should not ask the provider for an aborted call', async () => {
+      const auth = jest.fn(() => 'token');
+      const authClient = new DaebusHttpClient({ baseUrl: 'http://localhost:8080', auth });
+      const controller = new RealAbortController();
+      controller.abort();
+
+      await expect(authClient.get('/status', { signal: controller.signal })).rejects.toThrow(DaebusAbortError);
+      expect(auth).not.toHaveBeenCalled();
+    });
+
+    it('should fail the call when the provider fails', async () => {
+      const authClient = new DaebusHttpClient({
+        baseUrl: 'http://localhost:8080',
+        auth: () => Promise.reject(new Error('refresh failed')),
+      });
+
+      await expect(authClient.get('/status')).rejects.toMatchObject({
+        code: 'AUTH_ERROR',
+        message: 'Could not get credentials: refresh failed',
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateConfig', () => {
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { createHttpError } from '../errors';
+import {
+  DaebusClientError,
+  DaebusError,
+  DaebusHttpError,
+  DaebusNotFoundError,
+  DaebusRateLimitError,
+  DaebusServerError,
+  DaebusUnauthorizedError,
+  isClientError,
+  isHttpError,
+  isNotFoundError,
+  isRateLimitError,
+  isServerError,
+  isUnauthorizedError,
+} from '../../types';
+
+describe('createHttpError', () => {
+  it('should parse a JSON error body', () => {
+    const error = createHttpError(
+      400,
+      { 'content-type': 'application/json' },
+      JSON.stringify({ error: 'Invalid mode', code: 'BAD_MODE', details: { allowed: ['a'] }, timestamp: 1 })
+    );
+
+    expect(error).toBeInstanceOf(DaebusClientError);
+    expect(error).toBeInstanceOf(DaebusError);
+    expect(error.message).toBe('HTTP 400: Invalid mode');
+    expect(error.status).toBe(400);
+    expect(error.headers).toEqual({ 'content-type': 'application/json' });
+    expect(error.serverCode).toBe('BAD_MODE');
+    expect(error.details).toEqual({ allowed: ['a'] });
+    expect(error.code).toBe('HTTP_ERROR');
+  });
+
+  it('should keep plain text bodies', () => {
+    const error = createHttpError(502, {}, 'Bad Gateway');
+
+    expect(error).toBeInstanceOf(DaebusServerError);
+    expect(error.body).toBe('Bad Gateway');
+    expect(error.message).toBe('HTTP 502: Bad Gateway');
+    expect(error.serverCode).toBeUndefined();
+  });
+
+  it('should pick the subclass for well-known statuses', () => {
+    expect(createHttpError(401, {}, '')).toBeInstanceOf(DaebusUnauthorizedError);
+    expect(createHttpError(404, {}, '')).toBeInstanceOf(DaebusNotFoundError);
+    expect(createHttpError(404, {}, '')).toBeInstanceOf(DaebusClientError);
+    expect(createHttpError(429, {}, '')).toBeInstanceOf(DaebusRateLimitError);
+    expect(createHttpError(503, {}, '')).toBeInstanceOf(DaebusServerError);
+    expect(createHttpError(304, {}, '')).toBeInstanceOf(DaebusHttpError);
+  });
+
+  it('should read Retry-After on rate limit errors', () => {
+    const error = createHttpError(429, { 'retry-after': '3' }, '') as DaebusRateLimitError;
+
+    expect(error.retryAfter).toBe(3000);
+  });
+
+  it('should parse the body with the route error schema', () => {
+    const schema = z.object({
+      reason: z.enum(['busy', 'offline']),
+      retry: z.boolean().default(false),
+    });
+
+    const error = createHttpError(409, {}, JSON.stringify({ reason: 'busy' }), schema);
+
+    expect(error.body).toEqual({ reason: 'busy', retry: false });
+  });
+
+  it('should keep the raw body when it does not match the error schema', () => {
+    const schema = z.object({ reason: z.string() });
+
+    const error = createHttpError(409, {}, JSON.stringify({ other: 1 }), schema);
+
+    expect(error.body).toEqual({ other: 1 });
+  });
+});
+
+describe('HTTP error predicates', () => {
+  it('should narrow errors by status class', () => {
+    const notFound = createHttpError(404, {}, '');
+    const server = createHttpError(500, {}, '');
+
+    expect(isHttpError(notFound)).toBe(true);
+    expect(isClientError(notFound)).toBe(true);
+    expect(isNotFoundError(notFound)).toBe(true);
+    expect(isServerError(notFound)).toBe(false);
+    expect(isServerError(server)).toBe(true);
+    expect(isClientError(server)).toBe(false);
+    expect(isUnauthorizedError(createHttpError(401, {}, ''))).toBe(true);
+    expect(isRateLimitError(createHttpError(429, {}, ''))).toBe(true);
+    expect(isHttpError(new Error('nope'))).toBe(false);
+  });
+});
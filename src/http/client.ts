@@ -1,224 +1,502 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
 import {
-  DaebusError,
+  DaebusAbortError,
   DaebusTimeoutError,
   DaebusConnectionError,
+  HttpMethod,
   HttpResponse,
   ServiceSchema,
   ServiceRoutes,
+  RoutesWithMethod,
   RouteInput,
   RouteOutput,
   RouteParams,
+  RouteQuery,
+  TimeoutLimit,
 } from '@/types';
+import { validateOrThrow, validateRouteParams } from '@/utils/schema';
+import { QueryParams, serializeQuery } from '@/utils/query';
+import {
+  RetryEvent,
+  RetryPolicy,
+  ResolvedRetryPolicy,
+  computeBackoff,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from '@/utils/retry';
+import { HttpMiddleware, HttpRequest, composeMiddleware } from '@/http/middleware';
+import { createHttpError } from '@/http/errors';
+import { AuthProvider, fetchToken } from '@/utils/auth';
 
-export interface HttpClientOptions {
+export interface HttpClientOptions<T extends ServiceSchema = ServiceSchema> {
   baseUrl: string;
+  /** Default overall deadline for a call, including retries and backoff */
   timeout?: number;
+  /** Limit for a single attempt; unlimited (bounded by the deadline) by default */
+  attemptTimeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  retry?: RetryPolicy;
   headers?: Record<string, string>;
+  schema?: T;
+  validate?: boolean;
+  middleware?: HttpMiddleware[];
+  /** fetch implementation; defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** Token sent as `Authorization: Bearer <token>` unless the headers already set one */
+  auth?: AuthProvider;
+}
+
+// Per-call options shared by every HTTP method
+export interface HttpRequestOptions<
+  T extends ServiceSchema = ServiceSchema,
+  R extends ServiceRoutes<T> = ServiceRoutes<T>
+> {
+  params?: RouteParams<T, R>;
+  query?: RouteQuery<T, R>;
+  headers?: Record<string, string>;
+  /** Alias for `deadline` */
+  timeout?: number;
+  /** Overall time budget in ms, including retries and backoff */
+  deadline?: number;
+  attemptTimeout?: number;
+  validate?: boolean;
+  retry?: RetryPolicy;
+  signal?: AbortSignal;
 }
 
-export class DaebusHttpClient<T extends ServiceSchema = ServiceSchema> {
+// Header carrying the milliseconds left before the client gives up
+export const DEADLINE_HEADER = 'X-Daebus-Deadline';
+
+// Limits and cancellation that apply to every attempt of one call
+interface RequestControl {
+  signal?: AbortSignal;
+  errorSchema?: z.ZodSchema;
+  deadlineAt: number;
+  attemptTimeout?: number;
+  retryPolicy: ResolvedRetryPolicy;
+}
+
+// Outcome of an attempt that may be retried
+interface AttemptFailure {
+  error: unknown;
+  status?: number;
+  retryAfter?: number;
+}
+
+export class DaebusHttpClient<T extends ServiceSchema = ServiceSchema> extends EventEmitter {
   private baseUrl: string;
   private timeout: number;
-  private retryAttempts: number;
-  private retryDelay: number;
+  private attemptTimeout?: number;
+  private retryPolicy: ResolvedRetryPolicy;
   private defaultHeaders: Record<string, string>;
+  private schema?: T;
+  private validate: boolean;
+  private middleware: HttpMiddleware[];
+  private fetchImpl?: typeof fetch;
+  private auth?: AuthProvider;
 
-  constructor(private options: HttpClientOptions) {
+  constructor(private options: HttpClientOptions<T>) {
+    super();
     this.baseUrl = options.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.timeout = options.timeout ?? 30000;
-    this.retryAttempts = options.retryAttempts ?? 3;
-    this.retryDelay = options.retryDelay ?? 1000;
+    this.attemptTimeout = options.attemptTimeout;
+    this.retryPolicy = resolveRetryPolicy(
+      { maxAttempts: options.retryAttempts, baseDelay: options.retryDelay },
+      options.retry
+    );
     this.defaultHeaders = {
       'Content-Type': 'application/json',
       ...options.headers,
     };
+    this.schema = options.schema;
+    this.validate = options.validate ?? false;
+    this.middleware = [...(options.middleware ?? [])];
+    this.fetchImpl = options.fetch;
+    this.auth = options.auth;
+  }
+
+  /**
+   * Append a middleware to the chain. Middleware run in the order they were added.
+   */
+  use(middleware: HttpMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
-   * Make a typed HTTP request to a service route
+   * Make a typed HTTP request to a service route using the method declared
+   * in the schema (falls back to POST when the route is not in the schema)
    */
   async request<R extends ServiceRoutes<T>>(
     route: R,
-    options: {
-      params?: RouteParams<T, R>;
-      data?: RouteInput<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    } = {}
+    options: HttpRequestOptions<T, R> & { data?: RouteInput<T, R> } = {}
   ): Promise<HttpResponse<RouteOutput<T, R>>> {
-    const { params = {}, data, headers = {}, timeout = this.timeout } = options;
-    
+    return this.send(route, this.resolveMethod(route), options);
+  }
+
+  /**
+   * Make a GET request
+   */
+  async get<R extends RoutesWithMethod<T, 'GET'>>(
+    route: R,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    return this.send(route, 'GET', options);
+  }
+
+  /**
+   * Make a POST request
+   */
+  async post<R extends RoutesWithMethod<T, 'POST'>>(
+    route: R,
+    data: RouteInput<T, R>,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    return this.send(route, 'POST', { ...options, data });
+  }
+
+  /**
+   * Make a PUT request
+   */
+  async put<R extends RoutesWithMethod<T, 'PUT'>>(
+    route: R,
+    data: RouteInput<T, R>,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    return this.send(route, 'PUT', { ...options, data });
+  }
+
+  /**
+   * Make a PATCH request
+   */
+  async patch<R extends RoutesWithMethod<T, 'PATCH'>>(
+    route: R,
+    data: RouteInput<T, R>,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    return this.send(route, 'PATCH', { ...options, data });
+  }
+
+  /**
+   * Make a DELETE request
+   */
+  async delete<R extends RoutesWithMethod<T, 'DELETE'>>(
+    route: R,
+    options: HttpRequestOptions<T, R> = {}
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    return this.send(route, 'DELETE', options);
+  }
+
+  /**
+   * Look up the HTTP method a route declares in the schema
+   */
+  private resolveMethod(route: ServiceRoutes<T>): HttpMethod {
+    return this.schema?.routes[String(route)]?.method ?? 'POST';
+  }
+
+  /**
+   * Issue a request with the given method and handle the response
+   */
+  private async send<R extends ServiceRoutes<T>>(
+    route: R,
+    method: HttpMethod,
+    options: HttpRequestOptions<T, R> & { data?: RouteInput<T, R> }
+  ): Promise<HttpResponse<RouteOutput<T, R>>> {
+    const {
+      headers = {},
+      timeout = this.timeout,
+      deadline = timeout,
+      attemptTimeout = this.attemptTimeout,
+      validate = this.validate,
+      signal,
+    } = options;
+    const retryPolicy = options.retry
+      ? resolveRetryPolicy(this.retryPolicy, options.retry)
+      : this.retryPolicy;
+    const routeDefinition = this.schema?.routes[String(route)];
+    const definition = validate ? routeDefinition : undefined;
+    const context = `${method} ${String(route)}`;
+
+    // Query schemas are always applied so zod defaults end up in the URL;
+    // a failed parse only raises when validation is enabled
+    let query = options.query as QueryParams | undefined;
+    if (routeDefinition?.query) {
+      const querySchema = routeDefinition.query;
+      const rawQuery = query ?? {};
+      if (validate) {
+        query = validateOrThrow('request', context, () => querySchema.parse(rawQuery));
+      } else {
+        const result = querySchema.safeParse(rawQuery);
+        if (result.success) {
+          query = result.data;
+        }
+      }
+    }
+
+    let { params = {}, data } = options;
+    if (definition?.params) {
+      const paramSchemas = definition.params;
+      params = validateOrThrow('request', context, () =>
+        validateRouteParams(paramSchemas, params)
+      ) as typeof params;
+    }
+    if (definition?.input && data !== undefined) {
+      const inputSchema = definition.input;
+      data = validateOrThrow('request', context, () => inputSchema.parse(data));
+    }
+
     // Build URL with parameters
     let url = `${this.baseUrl}${String(route)}`;
     for (const [key, value] of Object.entries(params)) {
       url = url.replace(`<${key}>`, encodeURIComponent(String(value)));
     }
+    const queryString = query ? serializeQuery(query) : '';
+    if (queryString) {
+      url += `${url.includes('?') ? '&' : '?'}${queryString}`;
+    }
+
+    if (signal?.aborted) {
+      throw new DaebusAbortError(`${method} request to ${String(route)} was aborted`);
+    }
 
+    // Only ask the provider when neither the call nor the defaults set the header
     const requestHeaders = { ...this.defaultHeaders, ...headers };
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const hasAuthorization = Object.keys(requestHeaders).some(
+      (name) => name.toLowerCase() === 'authorization'
+    );
+    if (this.auth && !hasAuthorization) {
+      requestHeaders.Authorization = `Bearer ${await fetchToken(this.auth)}`;
+    }
+    const request: HttpRequest = {
+      route: String(route),
+      method,
+      url,
+      headers: requestHeaders,
+      body: data,
+    };
 
-    try {
-      const response = await this.makeRequestWithRetry(url, {
-        method: 'POST', // Default to POST for now, can be enhanced to use schema method
-        headers: requestHeaders,
-        body: data ? JSON.stringify(data) : undefined,
-        signal: controller.signal,
-      });
+    const control: RequestControl = {
+      signal,
+      errorSchema: routeDefinition?.errors,
+      deadlineAt: Date.now() + deadline,
+      attemptTimeout,
+      retryPolicy,
+    };
+    const handler = composeMiddleware(this.middleware, (outgoing) =>
+      this.dispatch(outgoing, control)
+    );
+    const response = await handler(request);
 
-      clearTimeout(timeoutId);
+    let responseData = response.data;
+    if (definition) {
+      const outputSchema = definition.output;
+      responseData = validateOrThrow('response', context, () => outputSchema.parse(responseData));
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new DaebusError(
-          `HTTP ${response.status}: ${errorText}`,
-          'HTTP_ERROR',
-          { status: response.status, response: errorText }
-        );
+    return { ...response, data: responseData as RouteOutput<T, R> };
+  }
+
+  /**
+   * Send a request over the network, retrying failed attempts the policy
+   * allows while they fit in the deadline. This is the innermost step of
+   * the middleware chain.
+   */
+  private async dispatch(
+    request: HttpRequest,
+    control: RequestControl
+  ): Promise<HttpResponse<unknown>> {
+    const { method, url } = request;
+    const { signal, deadlineAt, retryPolicy } = control;
+
+    for (let attempt = 1; ; attempt++) {
+      const outcome = await this.attempt(request, control, attempt);
+      if ('response' in outcome) {
+        return outcome.response;
       }
 
-      const responseData = await response.json();
-      
-      return {
-        data: responseData,
-        status: response.status,
-        headers: Object.fromEntries(response.headers.entries()),
-      };
-    } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        throw new DaebusTimeoutError(`Request to ${String(route)} timed out`);
+      const { failure } = outcome;
+      const delay = failure.retryAfter !== undefined
+        ? Math.min(failure.retryAfter, retryPolicy.maxDelay)
+        : computeBackoff(retryPolicy, attempt);
+      const canRetry = attempt < retryPolicy.maxAttempts
+        && retryPolicy.methods.includes(method)
+        // Don't start a backoff that would end past the deadline
+        && Date.now() + delay < deadlineAt;
+      if (!canRetry) {
+        throw failure.error;
       }
-      
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new DaebusConnectionError(`Failed to connect to ${url}`);
+
+      await this.waitForRetry(
+        failure.status !== undefined
+          ? { method, url, attempt, delay, status: failure.status }
+          : { method, url, attempt, delay, error: failure.error },
+        signal
+      );
+      if (signal?.aborted) {
+        throw new DaebusAbortError(`${method} request to ${request.route} was aborted`);
       }
-      
-      throw error;
     }
   }
 
   /**
-   * Make a GET request
+   * Make a single attempt, bounded by the attempt timeout and the remaining
+   * deadline. Resolves with a failure when the attempt may be retried.
    */
-  async get<R extends ServiceRoutes<T>>(
-    route: R,
-    options: {
-      params?: RouteParams<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    } = {}
-  ): Promise<HttpResponse<RouteOutput<T, R>>> {
-    const { params = {}, headers = {}, timeout = this.timeout } = options;
-    
-    let url = `${this.baseUrl}${String(route)}`;
-    for (const [key, value] of Object.entries(params)) {
-      url = url.replace(`<${key}>`, encodeURIComponent(String(value)));
+  private async attempt(
+    request: HttpRequest,
+    control: RequestControl,
+    attempt: number
+  ): Promise<{ response: HttpResponse<unknown> } | { failure: AttemptFailure }> {
+    const { route, method, url, headers, body } = request;
+    const { signal, deadlineAt, attemptTimeout, retryPolicy } = control;
+    const label = `${method} request to ${route}`;
+
+    const remaining = deadlineAt - Date.now();
+    if (remaining <= 0) {
+      throw new DaebusTimeoutError(
+        `${label} exceeded its deadline after ${attempt - 1} attempt(s)`,
+        'deadline',
+        attempt - 1
+      );
     }
 
-    const requestHeaders = { ...this.defaultHeaders, ...headers };
+    const limit: TimeoutLimit = attemptTimeout !== undefined && attemptTimeout < remaining
+      ? 'attempt'
+      : 'deadline';
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let expired = false;
+    const timeoutId = setTimeout(() => {
+      expired = true;
+      controller.abort();
+    }, limit === 'attempt' ? attemptTimeout : remaining);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
 
+    // Resolved per call and invoked unbound, as browsers reject fetch called on other receivers
+    const fetchImpl = this.fetchImpl ?? fetch;
+    let responded = false;
     try {
-      const response = await this.makeRequestWithRetry(url, {
-        method: 'GET',
-        headers: requestHeaders,
+      const response = await fetchImpl(url, {
+        method,
+        headers: { ...headers, [DEADLINE_HEADER]: String(remaining) },
+        body: method !== 'GET' && body !== undefined ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
-
-      clearTimeout(timeoutId);
+      responded = true;
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new DaebusError(
-          `HTTP ${response.status}: ${errorText}`,
-          'HTTP_ERROR',
-          { status: response.status, response: errorText }
+        const error = createHttpError(
+          response.status,
+          Object.fromEntries(response.headers.entries()),
+          await response.text(),
+          control.errorSchema
         );
+        if (!retryPolicy.statusCodes.includes(response.status)) {
+          throw error;
+        }
+        return {
+          failure: {
+            error,
+            status: response.status,
+            retryAfter: retryPolicy.respectRetryAfter
+              ? parseRetryAfter(response.headers.get('Retry-After'))
+              : undefined,
+          },
+        };
       }
 
-      const responseData = await response.json();
-      
+      // No Content and Reset Content replies (common for DELETE) have no body to parse
+      const empty = response.status === 204 || response.status === 205
+        || response.headers.get('Content-Length') === '0';
+      const responseData = empty ? undefined : await response.json();
+
       return {
-        data: responseData,
-        status: response.status,
-        headers: Object.fromEntries(response.headers.entries()),
+        response: {
+          data: responseData,
+          status: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+        },
       };
     } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        throw new DaebusTimeoutError(`GET request to ${String(route)} timed out`);
+      if (signal?.aborted) {
+        throw new DaebusAbortError(`${label} was aborted`);
+      }
+
+      if (expired) {
+        const timeoutError = new DaebusTimeoutError(
+          `${label} timed out after ${attempt} attempt(s) (${limit} limit)`,
+          limit,
+          attempt
+        );
+        if (limit === 'deadline') {
+          throw timeoutError;
+        }
+        return { failure: { error: timeoutError } };
+      }
+
+      // Error responses and unreadable bodies are not retried
+      if (responded) {
+        throw error;
       }
       
       if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new DaebusConnectionError(`Failed to connect to ${url}`);
+        return { failure: { error: new DaebusConnectionError(`Failed to connect to ${url}`) } };
       }
       
-      throw error;
+      return { failure: { error } };
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Make a POST request
-   */
-  async post<R extends ServiceRoutes<T>>(
-    route: R,
-    data: RouteInput<T, R>,
-    options: {
-      params?: RouteParams<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    } = {}
-  ): Promise<HttpResponse<RouteOutput<T, R>>> {
-    return this.request(route, { ...options, data });
-  }
-
-  /**
-   * Make request with retry logic
+   * Announce a retry and wait out its delay
    */
-  private async makeRequestWithRetry(
-    url: string,
-    init: RequestInit,
-    attempt: number = 1
-  ): Promise<Response> {
-    try {
-      return await fetch(url, init);
-    } catch (error) {
-      if (attempt < this.retryAttempts) {
-        await this.delay(this.retryDelay * attempt);
-        return this.makeRequestWithRetry(url, init, attempt + 1);
-      }
-      throw error;
-    }
+  private async waitForRetry(event: RetryEvent, signal?: AbortSignal): Promise<void> {
+    this.emit('retry', event);
+    await this.delay(event.delay, signal);
   }
 
   /**
-   * Delay utility for retries
+   * Delay utility for retries; ends early when the signal aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done);
+    });
   }
 
   /**
    * Update client configuration
    */
-  updateConfig(options: Partial<HttpClientOptions>): void {
+  updateConfig(options: Partial<HttpClientOptions<T>>): void {
     if (options.baseUrl) {
       this.baseUrl = options.baseUrl.replace(/\/$/, '');
     }
     if (options.timeout !== undefined) {
       this.timeout = options.timeout;
     }
-    if (options.retryAttempts !== undefined) {
-      this.retryAttempts = options.retryAttempts;
+    if (options.attemptTimeout !== undefined) {
+      this.attemptTimeout = options.attemptTimeout;
+    }
+    if (options.retryAttempts !== undefined || options.retryDelay !== undefined || options.retry) {
+      this.retryPolicy = resolveRetryPolicy(
+        this.retryPolicy,
+        { maxAttempts: options.retryAttempts, baseDelay: options.retryDelay },
+        options.retry
+      );
     }
-    if (options.retryDelay !== undefined) {
-      this.retryDelay = options.retryDelay;
+    if (options.validate !== undefined) {
+      this.validate = options.validate;
     }
     if (options.headers) {
       this.defaultHeaders = { ...this.defaultHeaders, ...options.headers };
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import {
+  DaebusClientError,
+  DaebusHttpError,
+  DaebusNotFoundError,
+  DaebusRateLimitError,
+  DaebusServerError,
+  DaebusUnauthorizedError,
+} from '@/types';
+import { parseRetryAfter } from '@/utils/retry';
+
+/**
+ * Build the DaebusHttpError subclass for a non-2xx response. The body is
+ * parsed as JSON when possible and, if the route declares an `errors`
+ * schema, validated against it. Server `error`/`message`, `code` and
+ * `details` fields are picked up from the body when present.
+ */
+export function createHttpError(
+  status: number,
+  headers: Record<string, string>,
+  text: string,
+  errorSchema?: z.ZodSchema
+): DaebusHttpError {
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON; keep the raw text
+  }
+
+  if (errorSchema) {
+    const result = errorSchema.safeParse(body);
+    if (result.success) {
+      body = result.data;
+    }
+  }
+
+  const fields = typeof body === 'object' && body !== null
+    ? body as Record<string, unknown>
+    : {};
+  const serverMessage = typeof fields.error === 'string'
+    ? fields.error
+    : typeof fields.message === 'string' ? fields.message : text;
+  const serverCode = typeof fields.code === 'string' ? fields.code : undefined;
+  const message = `HTTP ${status}: ${serverMessage}`;
+
+  if (status === 429) {
+    const error = new DaebusRateLimitError(message, status, headers, body, serverCode, fields.details);
+    error.retryAfter = parseRetryAfter(getHeader(headers, 'Retry-After'));
+    return error;
+  }
+  if (status === 401) {
+    return new DaebusUnauthorizedError(message, status, headers, body, serverCode, fields.details);
+  }
+  if (status === 404) {
+    return new DaebusNotFoundError(message, status, headers, body, serverCode, fields.details);
+  }
+  if (status >= 400 && status < 500) {
+    return new DaebusClientError(message, status, headers, body, serverCode, fields.details);
+  }
+  if (status >= 500) {
+    return new DaebusServerError(message, status, headers, body, serverCode, fields.details);
+  }
+  return new DaebusHttpError(message, status, headers, body, serverCode, fields.details);
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key !== undefined ? headers[key] : undefined;
+}
@@ -0,0 +1,38 @@
+import { HttpMethod, HttpResponse } from '@/types';
+
+/**
+ * Outgoing request as seen by middleware. `body` is the unserialized request
+ * data; it is JSON-encoded after the last middleware runs.
+ */
+export interface HttpRequest {
+  route: string;
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export type HttpHandler = (request: HttpRequest) => Promise<HttpResponse<unknown>>;
+
+/**
+ * Middleware wraps every HTTP call. It may modify the request before passing
+ * it to `next`, return a response without calling `next`, or transform the
+ * result (or error) that `next` produces.
+ */
+export type HttpMiddleware = (
+  request: HttpRequest,
+  next: HttpHandler
+) => Promise<HttpResponse<unknown>>;
+
+/**
+ * Compose middleware around a handler; the first middleware runs outermost
+ */
+export function composeMiddleware(
+  middleware: HttpMiddleware[],
+  handler: HttpHandler
+): HttpHandler {
+  return middleware.reduceRight<HttpHandler>(
+    (next, current) => (request) => current(request, next),
+    handler
+  );
+}
@@ -3,12 +3,31 @@ export { DaebusClient } from './client';
 export type { DaebusClientOptions } from './client';
 
 // HTTP client
-export { DaebusHttpClient } from './http/client';
-export type { HttpClientOptions } from './http/client';
+export { DaebusHttpClient, DEADLINE_HEADER } from './http/client';
+export type { HttpClientOptions, HttpRequestOptions } from './http/client';
+export { composeMiddleware } from './http/middleware';
+export type { HttpMiddleware, HttpHandler, HttpRequest } from './http/middleware';
+export { createHttpError } from './http/errors';
 
 // WebSocket client
 export { DaebusWebSocketClient } from './websocket/client';
-export type { WebSocketClientOptions, PendingRequest } from './websocket/client';
+export { WebSocketConnectionManager } from './websocket/manager';
+export type {
+  WebSocketClientOptions,
+  HeartbeatOptions,
+  InFlightPolicy,
+  ActionRequestOptions,
+  PendingRequest,
+  Subscription,
+  ActionHandler,
+  ActionHandlerContext,
+  ActionRegistration,
+} from './websocket/client';
+export type { WebSocketLike, WebSocketConstructor } from './websocket/transport';
+export type { OutboundQueueOptions } from './websocket/queue';
+export type { ActionStream } from './websocket/stream';
+export { PROTOCOL_VERSION } from './websocket/handshake';
+export type { HandshakeOptions, ServerCapabilities } from './websocket/handshake';
 
 // Types
 export * from './types';
@@ -18,6 +37,11 @@ export * from './react/hooks';
 
 // Utilities
 export * from './utils/schema';
+export * from './utils/query';
+export * from './utils/channels';
+export * from './utils/id';
+export * from './utils/auth';
+export * from './utils/retry';
 
 // Re-export zod for convenience
 export { z } from 'zod'; 
\ No newline at end of file
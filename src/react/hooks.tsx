@@ -1,17 +1,22 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { DaebusClient, DaebusClientOptions } from '@/client';
+import { HttpRequestOptions } from '@/http/client';
+import { ActionRequestOptions, Subscription } from '@/websocket/client';
 import {
   ServiceSchema,
   ServiceActions,
   ServiceChannels,
   ServiceRoutes,
+  RoutesWithMethod,
   ActionInput,
   ActionOutput,
+  ActionProgress,
   ChannelData,
   RouteInput,
   RouteOutput,
-  RouteParams,
   HttpResponse,
+  ConnectionState,
+  ConnectionStateChange,
 } from '@/types';
 
 // Hook state types
@@ -21,16 +26,32 @@ export interface UseActionState<T> {
   error: Error | null;
 }
 
+export interface UseActionStreamState<P, T> extends UseActionState<T> {
+  /** Latest progress update, cleared when the action is sent again */
+  progress: P | null;
+}
+
 export interface UseChannelState<T> {
   data: T | null;
+  /** Channel the latest message arrived on; differs from a subscribed pattern */
+  channel: string | null;
   connected: boolean;
   error: Error | null;
+  /** Messages may have been missed since the connection dropped */
+  stale: boolean;
 }
 
 export interface UseConnectionState {
+  state: ConnectionState;
+  /** The state is 'open' */
   connected: boolean;
+  /** The state is 'connecting' or 'reconnecting' */
   connecting: boolean;
+  /** Current reconnection attempt, 0 outside reconnection */
+  attempt: number;
   error: Error | null;
+  /** Heartbeat round-trip time in ms; requires the `heartbeat` option */
+  latency: number | null;
 }
 
 /**
@@ -52,11 +73,11 @@ export function useDaebusClient<T extends ServiceSchema = ServiceSchema>(
     }
   }, [options]);
 
-  // Cleanup on unmount
+  // Release the client's connection on unmount
   useEffect(() => {
     return () => {
       if (clientRef.current) {
-        clientRef.current.disconnect();
+        clientRef.current.dispose();
       }
     };
   }, []);
@@ -64,39 +85,63 @@ export function useDaebusClient<T extends ServiceSchema = ServiceSchema>(
   return clientRef.current;
 }
 
+function connectionFlags(state: ConnectionState) {
+  return {
+    state,
+    connected: state === 'open',
+    connecting: state === 'connecting' || state === 'reconnecting',
+  };
+}
+
 /**
  * Hook for managing WebSocket connection state
  */
 export function useConnection<T extends ServiceSchema = ServiceSchema>(
   client: DaebusClient<T>
 ): UseConnectionState {
-  const [state, setState] = useState<UseConnectionState>({
-    connected: client.isConnected(),
-    connecting: false,
+  const [state, setState] = useState<UseConnectionState>(() => ({
+    ...connectionFlags(client.state),
+    attempt: 0,
     error: null,
-  });
+    latency: client.getLatency(),
+  }));
 
   useEffect(() => {
-    const handleConnect = () => {
-      setState({ connected: true, connecting: false, error: null });
+    // The client may have moved on between render and subscription
+    setState(prev => ({ ...prev, ...connectionFlags(client.state) }));
+
+    const handleStateChange = ({ next, attempt }: ConnectionStateChange) => {
+      setState(prev => ({
+        ...prev,
+        ...connectionFlags(next),
+        attempt: next === 'reconnecting' ? attempt : 0,
+        error: next === 'open' ? null : prev.error,
+        latency: next === 'open' ? prev.latency : null,
+      }));
     };
 
-    const handleDisconnect = () => {
-      setState(prev => ({ ...prev, connected: false, connecting: false }));
+    const handleReconnecting = (attempt: number) => {
+      setState(prev => ({ ...prev, attempt }));
     };
 
     const handleError = (error: Error) => {
-      setState(prev => ({ ...prev, error, connecting: false }));
+      setState(prev => ({ ...prev, error }));
     };
 
-    client.on('connect', handleConnect);
-    client.on('disconnect', handleDisconnect);
+    const handleLatency = (latency: number) => {
+      setState(prev => ({ ...prev, latency }));
+    };
+
+    client.on('stateChange', handleStateChange);
+    client.on('reconnecting', handleReconnecting);
     client.on('error', handleError);
+    client.on('latency', handleLatency);
 
     return () => {
-      client.off('connect', handleConnect);
-      client.off('disconnect', handleDisconnect);
+      client.off('stateChange', handleStateChange);
+      client.off('reconnecting', handleReconnecting);
       client.off('error', handleError);
+      client.off('latency', handleLatency);
     };
   }, [client]);
 
@@ -113,7 +158,7 @@ export function useAction<
   client: DaebusClient<T>,
   action: A
 ): [
-  (payload: ActionInput<T, A>, timeout?: number) => Promise<ActionOutput<T, A>>,
+  (payload: ActionInput<T, A>, options?: number | ActionRequestOptions<ActionProgress<T, A>>) => Promise<ActionOutput<T, A>>,
   UseActionState<ActionOutput<T, A>>
 ] {
   const [state, setState] = useState<UseActionState<ActionOutput<T, A>>>({
@@ -123,11 +168,11 @@ export function useAction<
   });
 
   const sendAction = useCallback(
-    async (payload: ActionInput<T, A>, timeout?: number): Promise<ActionOutput<T, A>> => {
+    async (payload: ActionInput<T, A>, options?: number | ActionRequestOptions<ActionProgress<T, A>>): Promise<ActionOutput<T, A>> => {
       setState({ data: null, loading: true, error: null });
 
       try {
-        const result = await client.sendAction(action, payload, timeout);
+        const result = await client.sendAction(action, payload, options);
         setState({ data: result, loading: false, error: null });
         return result;
       } catch (error) {
@@ -142,6 +187,56 @@ export function useAction<
   return [sendAction, state];
 }
 
+/**
+ * Hook for sending actions that stream progress updates before their result
+ */
+export function useActionStream<
+  T extends ServiceSchema,
+  A extends ServiceActions<T>
+>(
+  client: DaebusClient<T>,
+  action: A
+): [
+  (payload: ActionInput<T, A>, options?: number | ActionRequestOptions<ActionProgress<T, A>>) => Promise<ActionOutput<T, A>>,
+  UseActionStreamState<ActionProgress<T, A>, ActionOutput<T, A>>
+] {
+  const [state, setState] = useState<UseActionStreamState<ActionProgress<T, A>, ActionOutput<T, A>>>({
+    data: null,
+    progress: null,
+    loading: false,
+    error: null,
+  });
+
+  const sendAction = useCallback(
+    async (
+      payload: ActionInput<T, A>,
+      options: number | ActionRequestOptions<ActionProgress<T, A>> = {}
+    ): Promise<ActionOutput<T, A>> => {
+      const requestOptions = typeof options === 'number' ? { timeout: options } : options;
+      setState({ data: null, progress: null, loading: true, error: null });
+
+      try {
+        const result = await client.sendAction(action, payload, {
+          ...requestOptions,
+          onProgress: (progress) => {
+            requestOptions.onProgress?.(progress);
+            setState(prev => ({ ...prev, progress }));
+          },
+        });
+        setState(prev => ({ ...prev, data: result, loading: false, error: null }));
+        return result;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        setState(prev => ({ ...prev, data: null, loading: false, error: err }));
+        throw error;
+      }
+    },
+    [client, action]
+  );
+
+  return [sendAction, state];
+}
+
 /**
  * Hook for subscribing to daebus channels
  */
@@ -161,44 +256,66 @@ export function useChannel<
   const [data, setData] = useState<ChannelData<T, C> | null>(null);
   const [state, setState] = useState<UseChannelState<ChannelData<T, C>>>({
     data: null,
+    channel: null,
     connected: false,
     error: null,
+    stale: false,
   });
 
   useEffect(() => {
     if (!autoSubscribe) return;
 
-    let isSubscribed = false;
+    // Each hook owns one subscription, so unmounting leaves other users of the channel alone
+    let subscription: Subscription | null = null;
+    let disposed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
 
     const subscribe = async () => {
       try {
-        await client.subscribe(channel, (channelData) => {
+        const handle = await client.subscribe(channel, (channelData, channelName) => {
           setData(channelData);
-          setState(prev => ({ ...prev, data: channelData, connected: true, error: null }));
+          setState(prev => ({
+            ...prev,
+            data: channelData,
+            channel: channelName,
+            connected: true,
+            error: null,
+          }));
         });
-        isSubscribed = true;
+        if (disposed) {
+          handle.unsubscribe();
+          return;
+        }
+        subscription = handle;
         setState(prev => ({ ...prev, connected: true, error: null }));
       } catch (error) {
+        if (disposed) return;
         const err = error instanceof Error ? error : new Error(String(error));
         setState(prev => ({ ...prev, connected: false, error: err }));
         
         if (reconnectOnError) {
           // Retry after a delay
-          setTimeout(() => {
-            if (!isSubscribed) {
-              subscribe();
-            }
-          }, 5000);
+          retryTimer = setTimeout(subscribe, 5000);
         }
       }
     };
 
+    const onStale = (name: string, stale: boolean) => {
+      if (name === channel) {
+        setState(prev => ({ ...prev, stale }));
+      }
+    };
+    client.on('stale', onStale);
+
     subscribe();
 
     return () => {
-      if (isSubscribed) {
-        client.unsubscribe(channel).catch(console.error);
+      disposed = true;
+      client.off('stale', onStale);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
       }
+      subscription?.unsubscribe();
     };
   }, [client, channel, autoSubscribe, reconnectOnError]);
 
@@ -206,7 +323,8 @@ export function useChannel<
 }
 
 /**
- * Hook for making HTTP requests to daebus services
+ * Hook for making HTTP requests to daebus services. The request is issued
+ * with the method the route declares in the schema.
  */
 export function useHttpRequest<
   T extends ServiceSchema,
@@ -215,12 +333,8 @@ export function useHttpRequest<
   client: DaebusClient<T>,
   route: R
 ): [
-  (options: {
-    method?: 'GET' | 'POST';
-    params?: RouteParams<T, R>;
+  (options?: HttpRequestOptions<T, R> & {
     data?: RouteInput<T, R>;
-    headers?: Record<string, string>;
-    timeout?: number;
   }) => Promise<HttpResponse<RouteOutput<T, R>>>,
   UseActionState<HttpResponse<RouteOutput<T, R>>>
 ] {
@@ -231,26 +345,13 @@ export function useHttpRequest<
   });
 
   const makeRequest = useCallback(
-    async (options: {
-      method?: 'GET' | 'POST';
-      params?: RouteParams<T, R>;
+    async (options: HttpRequestOptions<T, R> & {
       data?: RouteInput<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
     } = {}): Promise<HttpResponse<RouteOutput<T, R>>> => {
-      const { method = 'GET', ...requestOptions } = options;
-      
       setState({ data: null, loading: true, error: null });
 
       try {
-        let result: HttpResponse<RouteOutput<T, R>>;
-        
-        if (method === 'POST' && requestOptions.data) {
-          result = await client.post(route, requestOptions.data, requestOptions);
-        } else {
-          result = await client.get(route, requestOptions);
-        }
-
+        const result = await client.request(route, options);
         setState({ data: result, loading: false, error: null });
         return result;
       } catch (error) {
@@ -270,14 +371,11 @@ export function useHttpRequest<
  */
 export function useFetch<
   T extends ServiceSchema,
-  R extends ServiceRoutes<T>
+  R extends RoutesWithMethod<T, 'GET'>
 >(
   client: DaebusClient<T>,
   route: R,
-  options: {
-    params?: RouteParams<T, R>;
-    headers?: Record<string, string>;
-    timeout?: number;
+  options: HttpRequestOptions<T, R> & {
     enabled?: boolean;
     refetchOnMount?: boolean;
   } = {}
@@ -349,6 +447,11 @@ export function useDaebus<T extends ServiceSchema = ServiceSchema>(
     [client]
   );
 
+  const createActionStreamHook = useCallback(
+    <A extends ServiceActions<T>>(action: A) => useActionStream(client, action),
+    [client]
+  );
+
   const createChannelHook = useCallback(
     <C extends ServiceChannels<T>>(channel: C, hookOptions?: { autoSubscribe?: boolean; reconnectOnError?: boolean }) =>
       useChannel(client, channel, hookOptions),
@@ -361,10 +464,7 @@ export function useDaebus<T extends ServiceSchema = ServiceSchema>(
   );
 
   const createFetchHook = useCallback(
-    <R extends ServiceRoutes<T>>(route: R, hookOptions?: {
-      params?: RouteParams<T, R>;
-      headers?: Record<string, string>;
-      timeout?: number;
+    <R extends RoutesWithMethod<T, 'GET'>>(route: R, hookOptions?: HttpRequestOptions<T, R> & {
       enabled?: boolean;
       refetchOnMount?: boolean;
     }) => useFetch(client, route, hookOptions),
@@ -376,6 +476,7 @@ export function useDaebus<T extends ServiceSchema = ServiceSchema>(
     connection,
     broadcast,
     useAction: createActionHook,
+    useActionStream: createActionStreamHook,
     useChannel: createChannelHook,
     useHttp: createHttpHook,
     useFetch: createFetchHook,
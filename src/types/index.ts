@@ -7,6 +7,8 @@ export const DaebusMessageSchema = z.object({
   reply_channel: z.string().optional(),
   request_id: z.string().optional(),
   timestamp: z.number().optional(),
+  // Epoch milliseconds after which the sender no longer waits for a reply
+  deadline: z.number().optional(),
 });
 
 export const DaebusResponseSchema = z.object({
@@ -33,11 +35,44 @@ export type HttpResponse<T = unknown> = {
 };
 
 // WebSocket Event types
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closing'
+  | 'closed'
+  | 'failed';
+
+export interface ConnectionStateChange {
+  previous: ConnectionState;
+  next: ConnectionState;
+  /** Reconnection attempt at the time of the transition (0 outside reconnection) */
+  attempt: number;
+  /** Close code when the transition was caused by the socket closing */
+  code?: number;
+}
+
+export interface ChannelGap {
+  channel: string;
+  /** First sequence number that was missed */
+  expected: number;
+  /** Sequence number that arrived instead; absent when the server could not replay */
+  received?: number;
+}
+
 export interface WebSocketEvents {
   connect: () => void;
   disconnect: () => void;
   error: (error: Error) => void;
   message: (channel: string, data: unknown) => void;
+  invalid_message: (channel: string, data: unknown, error: DaebusValidationError) => void;
+  reconnecting: (attempt: number, delay: number) => void;
+  latency: (latency: number) => void;
+  stateChange: (change: ConnectionStateChange) => void;
+  subscription_error: (channel: string, error: Error) => void;
+  gap: (gap: ChannelGap) => void;
+  stale: (channel: string, stale: boolean) => void;
 }
 
 // Client configuration
@@ -49,20 +84,30 @@ export interface DaebusClientConfig {
   retryDelay?: number;
 }
 
+// HTTP verbs a service route can declare
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
 // Service schema definition for type generation
 export interface ServiceSchema {
   actions: Record<string, {
     input: z.ZodSchema;
     output: z.ZodSchema;
+    /** Safe to resend after a reconnect without side effects being applied twice */
+    idempotent?: boolean;
+    /** Intermediate updates sent as `progress` messages before the response */
+    progress?: z.ZodSchema;
   }>;
+  /** Keys may be patterns such as `device.*.status`, `*` matching one segment */
   channels: Record<string, {
     schema: z.ZodSchema;
   }>;
   routes: Record<string, {
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+    method: HttpMethod;
     input?: z.ZodSchema;
     output: z.ZodSchema;
     params?: Record<string, z.ZodSchema>;
+    query?: z.ZodSchema;
+    errors?: z.ZodSchema;
   }>;
 }
 
@@ -82,25 +127,168 @@ export class DaebusError extends Error {
   }
 }
 
+// Non-2xx HTTP response. `body` is the parsed JSON body (or the raw text when
+// it isn't JSON); `serverCode` and `details` come from the service's error body.
+export class DaebusHttpError<B = unknown> extends DaebusError {
+  constructor(
+    message: string,
+    public status: number,
+    public headers: Record<string, string>,
+    public body: B,
+    public serverCode?: string,
+    details?: unknown
+  ) {
+    super(message, 'HTTP_ERROR', details);
+    this.name = 'DaebusHttpError';
+  }
+}
+
+// 4xx responses
+export class DaebusClientError<B = unknown> extends DaebusHttpError<B> {
+  constructor(...args: ConstructorParameters<typeof DaebusHttpError<B>>) {
+    super(...args);
+    this.name = 'DaebusClientError';
+  }
+}
+
+// 5xx responses
+export class DaebusServerError<B = unknown> extends DaebusHttpError<B> {
+  constructor(...args: ConstructorParameters<typeof DaebusHttpError<B>>) {
+    super(...args);
+    this.name = 'DaebusServerError';
+  }
+}
+
+export class DaebusUnauthorizedError<B = unknown> extends DaebusClientError<B> {
+  constructor(...args: ConstructorParameters<typeof DaebusHttpError<B>>) {
+    super(...args);
+    this.name = 'DaebusUnauthorizedError';
+  }
+}
+
+export class DaebusNotFoundError<B = unknown> extends DaebusClientError<B> {
+  constructor(...args: ConstructorParameters<typeof DaebusHttpError<B>>) {
+    super(...args);
+    this.name = 'DaebusNotFoundError';
+  }
+}
+
+export class DaebusRateLimitError<B = unknown> extends DaebusClientError<B> {
+  // Milliseconds the server asked us to wait, from Retry-After
+  public retryAfter?: number;
+
+  constructor(...args: ConstructorParameters<typeof DaebusHttpError<B>>) {
+    super(...args);
+    this.name = 'DaebusRateLimitError';
+  }
+}
+
+export function isHttpError<B = unknown>(error: unknown): error is DaebusHttpError<B> {
+  return error instanceof DaebusHttpError;
+}
+
+export function isClientError<B = unknown>(error: unknown): error is DaebusClientError<B> {
+  return error instanceof DaebusClientError;
+}
+
+export function isServerError<B = unknown>(error: unknown): error is DaebusServerError<B> {
+  return error instanceof DaebusServerError;
+}
+
+export function isUnauthorizedError<B = unknown>(error: unknown): error is DaebusUnauthorizedError<B> {
+  return error instanceof DaebusUnauthorizedError;
+}
+
+export function isNotFoundError<B = unknown>(error: unknown): error is DaebusNotFoundError<B> {
+  return error instanceof DaebusNotFoundError;
+}
+
+export function isRateLimitError<B = unknown>(error: unknown): error is DaebusRateLimitError<B> {
+  return error instanceof DaebusRateLimitError;
+}
+
+// Which limit a timed out request hit: a single attempt or the overall deadline
+export type TimeoutLimit = 'attempt' | 'deadline';
+
 export class DaebusTimeoutError extends DaebusError {
-  constructor(message: string = 'Request timed out') {
+  constructor(
+    message: string = 'Request timed out',
+    public limit?: TimeoutLimit,
+    public attempts?: number
+  ) {
     super(message, 'TIMEOUT');
     this.name = 'DaebusTimeoutError';
   }
 }
 
 export class DaebusConnectionError extends DaebusError {
-  constructor(message: string = 'Connection error') {
+  constructor(
+    message: string = 'Connection error',
+    /** WebSocket close code when the error was caused by the socket closing */
+    public closeCode?: number
+  ) {
     super(message, 'CONNECTION_ERROR');
     this.name = 'DaebusConnectionError';
   }
 }
 
+export class DaebusSubscriptionError extends DaebusError {
+  constructor(
+    message: string,
+    public channel: string,
+    /** Error code sent by the service, e.g. 'UNKNOWN_CHANNEL' */
+    public serverCode?: string
+  ) {
+    super(message, 'SUBSCRIPTION_ERROR');
+    this.name = 'DaebusSubscriptionError';
+  }
+}
+
+export class DaebusProtocolError extends DaebusError {
+  constructor(
+    message: string,
+    /** Protocol version the server announced, when it sent one */
+    public serverProtocol?: number
+  ) {
+    super(message, 'PROTOCOL_ERROR');
+    this.name = 'DaebusProtocolError';
+  }
+}
+
+export class DaebusAbortError extends DaebusError {
+  constructor(message: string = 'Request aborted') {
+    super(message, 'ABORTED');
+    this.name = 'DaebusAbortError';
+  }
+}
+
+export type ValidationSide = 'request' | 'response';
+
+export class DaebusValidationError extends DaebusError {
+  constructor(
+    message: string,
+    public side: ValidationSide,
+    public issues: z.ZodIssue[]
+  ) {
+    super(message, 'VALIDATION_ERROR', issues);
+    this.name = 'DaebusValidationError';
+  }
+}
+
 // Utility types for service definitions
 export type ServiceActions<T extends ServiceSchema> = keyof T['actions'];
 export type ServiceChannels<T extends ServiceSchema> = keyof T['channels'];
 export type ServiceRoutes<T extends ServiceSchema> = keyof T['routes'];
 
+// Routes that may be called with the given HTTP method. Routes whose method
+// is not narrowed to a literal (untyped schemas) accept every verb.
+export type RoutesWithMethod<
+  T extends ServiceSchema,
+  M extends HttpMethod
+> = {
+  [R in ServiceRoutes<T>]: M extends T['routes'][R]['method'] ? R : never;
+}[ServiceRoutes<T>];
+
 // Type-safe action input/output
 export type ActionInput<
   T extends ServiceSchema,
@@ -112,12 +300,37 @@ export type ActionOutput<
   A extends ServiceActions<T>
 > = InferOutput<T['actions'][A]['output']>;
 
+// Progress updates of a streaming action; unknown when no schema is declared
+export type ActionProgress<
+  T extends ServiceSchema,
+  A extends ServiceActions<T>
+> = T['actions'][A]['progress'] extends z.ZodSchema
+  ? InferOutput<T['actions'][A]['progress']>
+  : unknown;
+
 // Type-safe channel data
 export type ChannelData<
   T extends ServiceSchema,
   C extends ServiceChannels<T>
 > = InferInput<T['channels'][C]['schema']>;
 
+// Concrete channel names matched by a channel pattern: `device.*.status`
+// becomes `device.${string}.status`
+export type ChannelPatternMatch<P extends string> =
+  P extends `${infer Head}*${infer Rest}`
+    ? `${Head}${string}${ChannelPatternMatch<Rest>}`
+    : P;
+
+export type ChannelName<
+  T extends ServiceSchema,
+  C extends ServiceChannels<T>
+> = ChannelPatternMatch<C & string>;
+
+export type ChannelHandler<
+  T extends ServiceSchema,
+  C extends ServiceChannels<T>
+> = (data: ChannelData<T, C>, channel: ChannelName<T, C>) => void;
+
 // Type-safe route input/output
 export type RouteInput<
   T extends ServiceSchema,
@@ -136,4 +349,23 @@ export type RouteParams<
   R extends ServiceRoutes<T>
 > = T['routes'][R]['params'] extends Record<string, z.ZodSchema>
   ? { [K in keyof T['routes'][R]['params']]: InferInput<T['routes'][R]['params'][K]> }
-  : Record<string, never>; 
\ No newline at end of file
+  : Record<string, never>;
+
+// Query parameters accept the schema's input type so fields with defaults are
+// optional. Routes without a query schema accept none; untyped schemas accept any.
+export type RouteQuery<
+  T extends ServiceSchema,
+  R extends ServiceRoutes<T>
+> = T['routes'][R]['query'] extends z.ZodSchema
+  ? z.input<T['routes'][R]['query']>
+  : [T['routes'][R]['query']] extends [undefined]
+    ? never
+    : Record<string, unknown>;
+
+// Error body a route declares with `errors`
+export type RouteError<
+  T extends ServiceSchema,
+  R extends ServiceRoutes<T>
+> = T['routes'][R]['errors'] extends z.ZodSchema
+  ? InferOutput<T['routes'][R]['errors']>
+  : unknown;
@@ -0,0 +1,55 @@
+import { authenticateRequest, fetchToken, resolveAuth } from '../auth';
+
+describe('resolveAuth', () => {
+  it('should default to the token query parameter', () => {
+    const token = () => 'secret';
+
+    expect(resolveAuth(token)).toEqual({ token, transport: 'query', queryParam: 'token' });
+  });
+
+  it('should keep explicit options', () => {
+    const token = () => 'secret';
+
+    expect(resolveAuth({ token, transport: 'message' })).toEqual({
+      token,
+      transport: 'message',
+      queryParam: 'token',
+    });
+  });
+});
+
+describe('authenticateRequest', () => {
+  it('should append the token to the query string', () => {
+    const auth = resolveAuth({ token: () => '', queryParam: 'access_token' });
+
+    expect(authenticateRequest(auth, 'abc', 'wss://host/ws').url).toBe('wss://host/ws?access_token=abc');
+    expect(authenticateRequest(auth, 'abc', 'wss://host/ws?v=2').url).toBe('wss://host/ws?v=2&access_token=abc');
+  });
+
+  it('should add a bearer subprotocol', () => {
+    const auth = resolveAuth({ token: () => '', transport: 'protocol' });
+
+    expect(authenticateRequest(auth, 'abc', 'wss://host/ws', ['daebus'])).toEqual({
+      url: 'wss://host/ws',
+      protocols: ['daebus', 'bearer.abc'],
+    });
+  });
+
+  it('should leave the request alone for the message transport', () => {
+    const auth = resolveAuth({ token: () => '', transport: 'message' });
+
+    expect(authenticateRequest(auth, 'abc', 'wss://host/ws')).toEqual({ url: 'wss://host/ws', protocols: [] });
+  });
+});
+
+describe('fetchToken', () => {
+  it('should wrap provider failures', async () => {
+    const cause = new Error('offline');
+
+    await expect(fetchToken(() => Promise.reject(cause))).rejects.toMatchObject({
+      code: 'AUTH_ERROR',
+      message: 'Could not get credentials: offline',
+      details: cause,
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { isChannelPattern, matchChannel, findChannel } from '../channels';
+
+describe('Channel Utilities', () => {
+  describe('isChannelPattern', () => {
+    it('should detect wildcard segments', () => {
+      expect(isChannelPattern('device.*.status')).toBe(true);
+      expect(isChannelPattern('*')).toBe(true);
+    });
+
+    it('should not treat plain channels or partial wildcards as patterns', () => {
+      expect(isChannelPattern('device.1.status')).toBe(false);
+      expect(isChannelPattern('device*.status')).toBe(false);
+    });
+  });
+
+  describe('matchChannel', () => {
+    it('should match one segment per wildcard', () => {
+      expect(matchChannel('device.*.status', 'device.42.status')).toBe(true);
+      expect(matchChannel('device.*.*', 'device.42.status')).toBe(true);
+    });
+
+    it('should not match a different number of segments', () => {
+      expect(matchChannel('device.*.status', 'device.42.fan.status')).toBe(false);
+      expect(matchChannel('device.*.status', 'device.status')).toBe(false);
+    });
+
+    it('should not match empty segments', () => {
+      expect(matchChannel('device.*.status', 'device..status')).toBe(false);
+    });
+
+    it('should compare literal segments exactly', () => {
+      expect(matchChannel('device.*.status', 'device.42.state')).toBe(false);
+      expect(matchChannel('notifications', 'notifications')).toBe(true);
+    });
+  });
+
+  describe('findChannel', () => {
+    const channels = {
+      'device.*.status': 'pattern',
+      'device.hub.status': 'exact',
+      notifications: 'plain',
+    };
+
+    it('should prefer an exact declaration', () => {
+      expect(findChannel(channels, 'device.hub.status')).toBe('exact');
+      expect(findChannel(channels, 'notifications')).toBe('plain');
+    });
+
+    it('should fall back to a matching pattern', () => {
+      expect(findChannel(channels, 'device.42.status')).toBe('pattern');
+    });
+
+    it('should return undefined for undeclared channels', () => {
+      expect(findChannel(channels, 'device.42.fan')).toBeUndefined();
+      expect(findChannel(channels, 'toString')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { randomRequestId } from '../id';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('ID Utilities', () => {
+  describe('randomRequestId', () => {
+    const originalCrypto = globalThis.crypto;
+
+    const setCrypto = (value: unknown) => {
+      Object.defineProperty(globalThis, 'crypto', { value, configurable: true, writable: true });
+    };
+
+    afterEach(() => {
+      setCrypto(originalCrypto);
+    });
+
+    it('should return a UUIDv4', () => {
+      expect(randomRequestId()).toMatch(UUID_V4);
+    });
+
+    it('should not repeat IDs', () => {
+      const ids = new Set(Array.from({ length: 100 }, () => randomRequestId()));
+
+      expect(ids.size).toBe(100);
+    });
+
+    it('should fall back to getRandomValues without randomUUID', () => {
+      setCrypto({
+        getRandomValues: (bytes: Uint8Array) => bytes.fill(0xff),
+      });
+
+      expect(randomRequestId()).toBe('ffffffff-ffff-4fff-bfff-ffffffffffff');
+    });
+
+    it('should throw without a secure random source', () => {
+      setCrypto(undefined);
+
+      expect(() => randomRequestId()).toThrow('No secure random source available');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { serializeQuery } from '../query';
+
+describe('Query Utilities', () => {
+  describe('serializeQuery', () => {
+    it('should serialize primitive values', () => {
+      expect(serializeQuery({ page: 2, sort: 'name', active: true, archived: false }))
+        .toBe('page=2&sort=name&active=true&archived=false');
+    });
+
+    it('should omit undefined and null values', () => {
+      expect(serializeQuery({ a: undefined, b: null, c: 'x' })).toBe('c=x');
+    });
+
+    it('should serialize dates as ISO strings', () => {
+      const since = new Date('2024-01-02T03:04:05.000Z');
+
+      expect(serializeQuery({ since })).toBe('since=2024-01-02T03%3A04%3A05.000Z');
+    });
+
+    it('should repeat keys for arrays', () => {
+      expect(serializeQuery({ tag: ['a', 'b'], id: [1, 2] })).toBe('tag=a&tag=b&id=1&id=2');
+    });
+
+    it('should use bracket notation for nested objects', () => {
+      expect(serializeQuery({
+        filter: { status: 'online', type: ['sensor', 'camera'], meta: { zone: 3 } },
+      })).toBe(
+        'filter%5Bstatus%5D=online&filter%5Btype%5D=sensor&filter%5Btype%5D=camera&filter%5Bmeta%5D%5Bzone%5D=3'
+      );
+    });
+
+    it('should index objects inside arrays', () => {
+      expect(decodeURIComponent(serializeQuery({
+        sort: [{ by: 'name', order: 'asc' }, { by: 'id', order: 'desc' }],
+      }))).toBe('sort[0][by]=name&sort[0][order]=asc&sort[1][by]=id&sort[1][order]=desc');
+    });
+
+    it('should encode special characters', () => {
+      expect(serializeQuery({ q: 'a&b=c' })).toBe('q=a%26b%3Dc');
+    });
+
+    it('should return an empty string for empty queries', () => {
+      expect(serializeQuery({})).toBe('');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  DEFAULT_RECONNECT_POLICY,
+  DEFAULT_RETRY_POLICY,
+  computeBackoff,
+  parseRetryAfter,
+  resolveReconnectPolicy,
+  resolveRetryPolicy,
+} from '../retry';
+
+describe('Retry Utilities', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should return the defaults', () => {
+      expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should let later policies override earlier ones and ignore undefined', () => {
+      const policy = resolveRetryPolicy(
+        { maxAttempts: 5, baseDelay: 200 },
+        { maxAttempts: undefined, methods: ['GET', 'POST'] }
+      );
+
+      expect(policy.maxAttempts).toBe(5);
+      expect(policy.baseDelay).toBe(200);
+      expect(policy.methods).toEqual(['GET', 'POST']);
+      expect(policy.statusCodes).toEqual(DEFAULT_RETRY_POLICY.statusCodes);
+    });
+  });
+
+  describe('resolveReconnectPolicy', () => {
+    it('should return the defaults', () => {
+      expect(resolveReconnectPolicy()).toEqual(DEFAULT_RECONNECT_POLICY);
+    });
+
+    it('should accept Infinity for unlimited attempts', () => {
+      const policy = resolveReconnectPolicy({ maxAttempts: 3 }, { maxAttempts: Infinity });
+
+      expect(policy.maxAttempts).toBe(Infinity);
+      expect(policy.maxDelay).toBe(DEFAULT_RECONNECT_POLICY.maxDelay);
+    });
+  });
+
+  describe('computeBackoff', () => {
+    const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: false });
+
+    it('should grow exponentially', () => {
+      expect(computeBackoff(policy, 1)).toBe(100);
+      expect(computeBackoff(policy, 2)).toBe(200);
+      expect(computeBackoff(policy, 3)).toBe(400);
+    });
+
+    it('should cap at maxDelay', () => {
+      expect(computeBackoff(policy, 10)).toBe(1000);
+    });
+
+    it('should apply jitter between half and the full delay', () => {
+      const jittered = resolveRetryPolicy(policy, { jitter: true });
+
+      expect(computeBackoff(jittered, 3, () => 0)).toBe(200);
+      expect(computeBackoff(jittered, 3, () => 1)).toBe(400);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
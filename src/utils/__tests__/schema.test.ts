@@ -10,7 +10,9 @@ import {
   CommonSchemas,
   route,
   validateRouteParams,
+  validateOrThrow,
 } from '../schema';
+import { DaebusValidationError } from '../../types';
 
 describe('Schema Utilities', () => {
   describe('defineSchema', () => {
@@ -101,6 +103,20 @@ describe('Schema Utilities', () => {
         output: outputSchema,
       });
     });
+
+    it('should mark idempotent actions', () => {
+      const actionDef = action(z.object({}), z.object({}), { idempotent: true });
+
+      expect(actionDef.idempotent).toBe(true);
+    });
+
+    it('should attach a progress schema', () => {
+      const progress = z.object({ percent: z.number() });
+
+      const actionDef = action(z.object({}), z.object({}), { progress });
+
+      expect(actionDef.progress).toBe(progress);
+    });
   });
 
   describe('channel', () => {
@@ -308,4 +324,36 @@ describe('Schema Utilities', () => {
       expect(() => validateRouteParams(params, values)).toThrow();
     });
   });
-}); 
\ No newline at end of file
+
+  describe('validateOrThrow', () => {
+    it('should return the validated value', () => {
+      const schema = z.object({ page: z.number().default(1) });
+
+      expect(validateOrThrow('request', 'GET /items', () => schema.parse({}))).toEqual({ page: 1 });
+    });
+
+    it('should convert Zod errors into DaebusValidationError', () => {
+      const schema = z.object({ name: z.string() });
+
+      try {
+        validateOrThrow('response', 'GET /items', () => schema.parse({ name: 42 }));
+        fail('Expected error to be thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(DaebusValidationError);
+        const validationError = error as DaebusValidationError;
+        expect(validationError.side).toBe('response');
+        expect(validationError.code).toBe('VALIDATION_ERROR');
+        expect(validationError.issues[0].path).toEqual(['name']);
+        expect(validationError.message).toContain('Invalid response for GET /items');
+      }
+    });
+
+    it('should rethrow non-Zod errors unchanged', () => {
+      const failure = new Error('boom');
+
+      expect(() => validateOrThrow('request', 'test', () => {
+        throw failure;
+      })).toThrow(failure);
+    });
+  });
+});
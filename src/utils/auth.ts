@@ -0,0 +1,71 @@
+import { DaebusError } from '@/types';
+import { serializeQuery } from '@/utils/query';
+
+/**
+ * Returns the current access token. Called on every WebSocket (re)connect,
+ * when the server reports `auth_expired`, and for every HTTP call, so it
+ * should cache the token and only refresh it when needed.
+ */
+export type AuthProvider = () => string | Promise<string>;
+
+/**
+ * How the WebSocket client presents the token:
+ * - 'query': appended to the URL as a query parameter
+ * - 'protocol': offered as a `bearer.<token>` subprotocol
+ * - 'message': sent as `{ type: 'auth', token }` before any other frame
+ */
+export type AuthTransport = 'query' | 'protocol' | 'message';
+
+export interface AuthOptions {
+  token: AuthProvider;
+  /** How the token reaches the WebSocket server ('query') */
+  transport?: AuthTransport;
+  /** Query parameter carrying the token with the 'query' transport ('token') */
+  queryParam?: string;
+}
+
+export type ResolvedAuth = Required<AuthOptions>;
+
+// Subprotocol prefix of the token with the 'protocol' transport
+export const AUTH_PROTOCOL_PREFIX = 'bearer.';
+
+/**
+ * Normalize a bare provider or partial options
+ */
+export function resolveAuth(auth: AuthProvider | AuthOptions): ResolvedAuth {
+  const options = typeof auth === 'function' ? { token: auth } : auth;
+  return { transport: 'query', queryParam: 'token', ...options };
+}
+
+/**
+ * Ask the provider for a token. Provider failures become a DaebusError with
+ * the code 'AUTH_ERROR' and the original error as `details`.
+ */
+export async function fetchToken(provider: AuthProvider): Promise<string> {
+  try {
+    return await provider();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new DaebusError(`Could not get credentials: ${reason}`, 'AUTH_ERROR', error);
+  }
+}
+
+/**
+ * URL and subprotocols to open a WebSocket with, carrying the token when the
+ * transport puts it in the handshake request
+ */
+export function authenticateRequest(
+  auth: ResolvedAuth,
+  token: string,
+  url: string,
+  protocols: string[] = []
+): { url: string; protocols: string[] } {
+  if (auth.transport === 'query') {
+    const query = serializeQuery({ [auth.queryParam]: token });
+    return { url: `${url}${url.includes('?') ? '&' : '?'}${query}`, protocols };
+  }
+  if (auth.transport === 'protocol') {
+    return { url, protocols: [...protocols, `${AUTH_PROTOCOL_PREFIX}${token}`] };
+  }
+  return { url, protocols };
+}
@@ -0,0 +1,47 @@
+/**
+ * Channel patterns use `*` in place of a single dot-separated segment:
+ * `device.*.status` matches `device.42.status` but not `device.42.fan.status`.
+ */
+export function isChannelPattern(channel: string): boolean {
+  return channel.split('.').includes('*');
+}
+
+/**
+ * Check whether a concrete channel name matches a channel pattern. A channel
+ * without wildcards only matches itself.
+ */
+export function matchChannel(pattern: string, channel: string): boolean {
+  const patternSegments = pattern.split('.');
+  const channelSegments = channel.split('.');
+
+  if (patternSegments.length !== channelSegments.length) {
+    return false;
+  }
+
+  return patternSegments.every((segment, index) =>
+    segment === '*'
+      ? channelSegments[index].length > 0
+      : segment === channelSegments[index]
+  );
+}
+
+/**
+ * Find the declared channel a concrete channel name belongs to: an exact
+ * declaration wins over a matching pattern.
+ */
+export function findChannel<D>(
+  channels: Record<string, D>,
+  channel: string
+): D | undefined {
+  if (Object.prototype.hasOwnProperty.call(channels, channel)) {
+    return channels[channel];
+  }
+
+  for (const [name, definition] of Object.entries(channels)) {
+    if (isChannelPattern(name) && matchChannel(name, channel)) {
+      return definition;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,9 @@
+/**
+ * Narrowing helpers for frames received from the server
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
@@ -0,0 +1,30 @@
+import { DaebusError } from '@/types';
+
+export type RequestIdGenerator = () => string;
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Random UUIDv4 request ID. Uses `crypto.randomUUID` where available and
+ * falls back to `crypto.getRandomValues`, since browsers only expose
+ * `randomUUID` in secure contexts.
+ */
+export function randomRequestId(): string {
+  const cryptoImpl = globalThis.crypto;
+  if (typeof cryptoImpl?.randomUUID === 'function') {
+    return cryptoImpl.randomUUID();
+  }
+  if (typeof cryptoImpl?.getRandomValues !== 'function') {
+    throw new DaebusError(
+      'No secure random source available; pass a generateRequestId option'
+    );
+  }
+
+  const bytes = cryptoImpl.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const id = hex(bytes);
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+}
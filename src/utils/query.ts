@@ -0,0 +1,41 @@
+export type QueryParams = Record<string, unknown>;
+
+/**
+ * Serialize query parameters into a URL query string (without the leading `?`).
+ *
+ * - `undefined` and `null` values are omitted
+ * - booleans become `true` / `false`, dates become ISO 8601 strings
+ * - arrays repeat the key: `{ tag: ['a', 'b'] }` → `tag=a&tag=b`
+ * - nested objects use brackets: `{ filter: { status: 'on' } }` → `filter[status]=on`
+ * - objects inside arrays are indexed: `{ sort: [{ by: 'name' }] }` → `sort[0][by]=name`
+ */
+export function serializeQuery(query: QueryParams): string {
+  const search = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    appendQueryValue(search, key, value);
+  }
+
+  return search.toString();
+}
+
+function appendQueryValue(search: URLSearchParams, key: string, value: unknown): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (value instanceof Date) {
+    search.append(key, value.toISOString());
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const isObject = typeof item === 'object' && item !== null && !(item instanceof Date);
+      appendQueryValue(search, isObject ? `${key}[${index}]` : key, item);
+    });
+  } else if (typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      appendQueryValue(search, `${key}[${childKey}]`, childValue);
+    }
+  } else {
+    search.append(key, String(value));
+  }
+}
@@ -0,0 +1,139 @@
+import { HttpMethod } from '@/types';
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled (by `factor`) for each further retry */
+  baseDelay?: number;
+  /** Upper bound for a single delay, including Retry-After values */
+  maxDelay?: number;
+  factor?: number;
+  /** Randomize each delay between half and the full backoff value */
+  jitter?: boolean;
+  /** Response status codes that are retried */
+  statusCodes?: number[];
+  /** Methods that are retried; non-idempotent methods are excluded by default */
+  methods?: HttpMethod[];
+  /** Wait for the server's Retry-After header when present */
+  respectRetryAfter?: boolean;
+}
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+export interface ReconnectPolicy {
+  /** Reconnection attempts before giving up; `Infinity` never gives up */
+  maxAttempts?: number;
+  /** Delay before the first attempt, multiplied by `factor` for each further attempt */
+  baseDelay?: number;
+  /** Upper bound for a single delay */
+  maxDelay?: number;
+  factor?: number;
+  /** Randomize each delay between half and the full backoff value */
+  jitter?: boolean;
+  /** Reconnect immediately when the browser goes back online or the page becomes visible */
+  onResume?: boolean;
+}
+
+export type ResolvedReconnectPolicy = Required<ReconnectPolicy>;
+
+// Parameters shared by retry and reconnect policies
+export type BackoffPolicy = Pick<ResolvedRetryPolicy, 'baseDelay' | 'maxDelay' | 'factor' | 'jitter'>;
+
+export interface RetryEvent {
+  method: HttpMethod;
+  url: string;
+  /** The attempt that failed (1 for the initial request) */
+  attempt: number;
+  /** Milliseconds until the next attempt */
+  delay: number;
+  status?: number;
+  error?: unknown;
+}
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  statusCodes: [408, 429, 502, 503, 504],
+  methods: ['GET', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+};
+
+export const DEFAULT_RECONNECT_POLICY: ResolvedReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  onResume: true,
+};
+
+function mergePolicies<P extends object>(
+  defaults: Required<P>,
+  policies: Array<P | undefined>
+): Required<P> {
+  const resolved = { ...defaults };
+  for (const policy of policies) {
+    for (const [key, value] of Object.entries(policy ?? {})) {
+      if (value !== undefined) {
+        (resolved as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Merge retry policies over the defaults; later policies win
+ */
+export function resolveRetryPolicy(
+  ...policies: Array<RetryPolicy | undefined>
+): ResolvedRetryPolicy {
+  return mergePolicies(DEFAULT_RETRY_POLICY, policies);
+}
+
+/**
+ * Merge reconnect policies over the defaults; later policies win
+ */
+export function resolveReconnectPolicy(
+  ...policies: Array<ReconnectPolicy | undefined>
+): ResolvedReconnectPolicy {
+  return mergePolicies(DEFAULT_RECONNECT_POLICY, policies);
+}
+
+/**
+ * Exponential backoff delay before retrying after the given (1-based) attempt
+ */
+export function computeBackoff(
+  policy: BackoffPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(policy.factor, attempt - 1)
+  );
+  return policy.jitter ? Math.round(delay / 2 + random() * (delay / 2)) : delay;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -1,5 +1,10 @@
 import { z } from 'zod';
-import { ServiceSchema } from '@/types';
+import {
+  DaebusValidationError,
+  HttpMethod,
+  ServiceSchema,
+  ValidationSide,
+} from '@/types';
 
 /**
  * Create a type-safe service schema definition
@@ -29,17 +34,49 @@ export function safeValidateSchema<T extends z.ZodSchema>(
   return result;
 }
 
+/**
+ * Run a validation step, converting Zod failures into a DaebusValidationError
+ * that records which side of the exchange was invalid
+ */
+export function validateOrThrow<R>(
+  side: ValidationSide,
+  context: string,
+  validate: () => R
+): R {
+  try {
+    return validate();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new DaebusValidationError(
+        `Invalid ${side} for ${context}: ${error.issues
+          .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+          .join(', ')}`,
+        side,
+        error.issues
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Simple schema builder for building service schemas
  */
 export function createSchema(): {
-  actions: Record<string, { input: z.ZodSchema; output: z.ZodSchema }>;
+  actions: Record<string, {
+    input: z.ZodSchema;
+    output: z.ZodSchema;
+    idempotent?: boolean;
+    progress?: z.ZodSchema;
+  }>;
   channels: Record<string, { schema: z.ZodSchema }>;
   routes: Record<string, {
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+    method: HttpMethod;
     input?: z.ZodSchema;
     output: z.ZodSchema;
     params?: Record<string, z.ZodSchema>;
+    query?: z.ZodSchema;
+    errors?: z.ZodSchema;
   }>;
 } {
   return {
@@ -49,14 +86,26 @@ export function createSchema(): {
   };
 }
 
+export interface ActionOptions<P extends z.ZodSchema | undefined = undefined> {
+  /** Mark the action safe to resend after a reconnect */
+  idempotent?: boolean;
+  /** Schema for the progress updates the action streams before its result */
+  progress?: P;
+}
+
 /**
  * Helper to create an action definition
  */
-export function action<I extends z.ZodSchema, O extends z.ZodSchema>(
+export function action<
+  I extends z.ZodSchema,
+  O extends z.ZodSchema,
+  P extends z.ZodSchema | undefined = undefined
+>(
   input: I,
-  output: O
-): { input: I; output: O } {
-  return { input, output };
+  output: O,
+  options: ActionOptions<P> = {}
+): { input: I; output: O; idempotent?: boolean; progress: P } {
+  return { input, output, ...options, progress: options.progress as P };
 }
 
 /**
@@ -72,26 +121,34 @@ export function channel<S extends z.ZodSchema>(
  * Helper to create a route definition
  */
 export function httpRoute<
-  M extends 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH',
+  M extends HttpMethod,
   I extends z.ZodSchema | undefined,
   O extends z.ZodSchema,
-  P extends Record<string, z.ZodSchema> | undefined = undefined
+  P extends Record<string, z.ZodSchema> | undefined = undefined,
+  Q extends z.ZodSchema | undefined = undefined,
+  E extends z.ZodSchema | undefined = undefined
 >(config: {
   method: M;
   output: O;
   input?: I;
   params?: P;
+  query?: Q;
+  errors?: E;
 }): {
   method: M;
   input: I;
   output: O;
   params: P;
+  query: Q;
+  errors: E;
 } {
   return {
     method: config.method,
     input: config.input as I,
     output: config.output,
     params: config.params as P,
+    query: config.query as Q,
+    errors: config.errors as E,
   };
 }
 
@@ -1,12 +1,18 @@
 import { EventEmitter } from 'events';
+import { z } from 'zod';
 import {
   DaebusError,
+  DaebusAbortError,
   DaebusTimeoutError,
   DaebusConnectionError,
+  DaebusValidationError,
+  DaebusSubscriptionError,
+  DaebusProtocolError,
 } from '../../types';
+import { defineSchema, action, channel } from '../../utils/schema';
 
-// Mock WebSocket - define at the top level
-class MockWebSocket extends EventEmitter {
+// Mock WebSocket exposing the standard addEventListener API
+class MockWebSocket {
   public static CONNECTING = 0;
   public static OPEN = 1;
   public static CLOSING = 2;
@@ -15,40 +21,57 @@ class MockWebSocket extends EventEmitter {
   public readyState = MockWebSocket.CONNECTING;
   public url: string;
   public protocol: string;
+  private listeners = new EventEmitter();
 
   constructor(url: string, protocols?: string | string[]) {
-    super();
     this.url = url;
     this.protocol = Array.isArray(protocols) ? protocols[0] : protocols || '';
     
     // Simulate async connection
     setTimeout(() => {
+      if (this.readyState !== MockWebSocket.CONNECTING) {
+        return;
+      }
       this.readyState = MockWebSocket.OPEN;
-      this.emit('open');
+      this.dispatch('open', {});
     }, 10);
   }
 
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.on(type, listener);
+  }
+
+  dispatch(type: string, event: unknown) {
+    this.listeners.emit(type, event);
+  }
+
   send(data: string) {
     if (this.readyState !== MockWebSocket.OPEN) {
       throw new Error('WebSocket is not open');
     }
-    // Echo back for testing
+    // Acknowledge subscriptions and echo everything else back for testing
+    const message = JSON.parse(data);
     setTimeout(() => {
-      this.emit('message', data);
+      if (message.type === 'subscribe') {
+        const ack = { type: 'subscribed', id: message.id, channel: message.channel };
+        this.dispatch('message', { data: JSON.stringify(ack) });
+        return;
+      }
+      this.dispatch('message', { data });
     }, 5);
   }
 
   close(code?: number, reason?: string) {
+    // Browsers and Node only accept 1000 and application codes
+    if (code !== undefined && code !== 1000 && (code < 3000 || code > 4999)) {
+      throw new Error(`InvalidAccessError: invalid code ${code}`);
+    }
     this.readyState = MockWebSocket.CLOSED;
-    this.emit('close', code || 1000, Buffer.from(reason || ''));
+    this.dispatch('close', { code: code || 1000, reason: reason || '' });
   }
 }
 
-// Mock the ws module
-jest.mock('ws', () => MockWebSocket);
-
-// Import after mocking
-import { DaebusWebSocketClient } from '../client';
+import { DaebusWebSocketClient, WebSocketClientOptions } from '../client';
 
 describe('DaebusWebSocketClient', () => {
   let client: DaebusWebSocketClient;
@@ -59,6 +82,7 @@ describe('DaebusWebSocketClient', () => {
       timeout: 1000,
       maxReconnectAttempts: 2,
       reconnectInterval: 100,
+      WebSocket: MockWebSocket,
     });
     jest.clearAllMocks();
   });
@@ -100,6 +124,20 @@ describe('DaebusWebSocketClient', () => {
       expect(client.isConnected()).toBe(true);
     });
 
+    it('should not open a socket when disconnected right after connecting', async () => {
+      const states: string[] = [];
+      client.on('stateChange', ({ next }) => states.push(next));
+
+      const connecting = client.connect();
+      client.disconnect();
+
+      await expect(connecting).rejects.toThrow('Connection closed');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(client.state).toBe('closed');
+      expect(client.isConnected()).toBe(false);
+      expect(states).toEqual(['connecting', 'closed']);
+    });
+
     it('should disconnect cleanly', async () => {
       await client.connect();
       expect(client.isConnected()).toBe(true);
@@ -119,6 +157,162 @@ describe('DaebusWebSocketClient', () => {
       await new Promise(resolve => setTimeout(resolve, 20));
       expect(disconnectSpy).toHaveBeenCalled();
     });
+
+    it('should report the close code and reason from the close event', async () => {
+      const disconnectSpy = jest.fn();
+      client.on('disconnect', disconnectSpy);
+
+      await client.connect();
+      client.disconnect();
+
+      expect(disconnectSpy).toHaveBeenCalledWith(1000, 'Client disconnect');
+    });
+
+    it('should decode binary message data', async () => {
+      const messageSpy = jest.fn();
+      client.on('message', messageSpy);
+
+      await client.connect();
+      const payload = new TextEncoder().encode(JSON.stringify({ type: 'hello', server: 'test' }));
+      (client['ws'] as any).dispatch('message', { data: payload });
+
+      expect(messageSpy).toHaveBeenCalledWith({ type: 'hello', server: 'test' });
+    });
+
+    it('should ask browser sockets for binary frames as ArrayBuffers', async () => {
+      class BrowserWebSocket extends MockWebSocket {
+        public binaryType = 'blob';
+      }
+      const browserClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        WebSocket: BrowserWebSocket,
+      });
+
+      await browserClient.connect();
+
+      expect((browserClient['ws'] as BrowserWebSocket | null)?.binaryType).toBe('arraybuffer');
+      browserClient.disconnect();
+    });
+
+    it('should reject with a connection error when the socket errors', async () => {
+      class FailingWebSocket extends MockWebSocket {
+        constructor(url: string) {
+          super(url);
+          setTimeout(() => this.dispatch('error', { message: 'ECONNREFUSED' }), 1);
+        }
+      }
+      const failing = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        WebSocket: FailingWebSocket,
+      });
+      failing.on('error', () => {});
+
+      await expect(failing.connect()).rejects.toThrow('WebSocket connection failed: ECONNREFUSED');
+    });
+  });
+
+  describe('connection state', () => {
+    let transitions: Array<{ previous: string; next: string; attempt: number; code?: number }>;
+
+    beforeEach(() => {
+      transitions = [];
+      client.on('stateChange', (change) => transitions.push(change));
+    });
+
+    it('should start idle and move through connecting to open', async () => {
+      expect(client.state).toBe('idle');
+
+      await client.connect();
+
+      expect(client.state).toBe('open');
+      expect(transitions).toEqual([
+        { previous: 'idle', next: 'connecting', attempt: 0, code: undefined },
+        { previous: 'connecting', next: 'open', attempt: 0, code: undefined },
+      ]);
+    });
+
+    it('should move through closing to closed on disconnect', async () => {
+      await client.connect();
+      transitions = [];
+
+      client.disconnect();
+
+      expect(client.state).toBe('closed');
+      expect(transitions.map(({ next }) => next)).toEqual(['closing', 'closed']);
+      expect(transitions[1].code).toBe(1000);
+    });
+
+    it('should report reconnecting with the close code on unexpected close', async () => {
+      await client.connect();
+      transitions = [];
+
+      const ws = client['ws'] as any;
+      ws.readyState = MockWebSocket.CLOSED;
+      ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+
+      expect(client.state).toBe('reconnecting');
+      expect(transitions).toEqual([{ previous: 'open', next: 'reconnecting', attempt: 1, code: 1006 }]);
+    });
+
+    it('should return to open after reconnecting', async () => {
+      await client.connect();
+      const ws = client['ws'] as any;
+      ws.readyState = MockWebSocket.CLOSED;
+      ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      expect(client.state).toBe('open');
+      expect(transitions.map(({ next }) => next)).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+    });
+
+    it('should fail once reconnection attempts are exhausted', async () => {
+      client.on('error', () => {});
+      client['reconnectAttempts'] = 2;
+
+      client['scheduleReconnect'](1011);
+
+      expect(client.state).toBe('failed');
+      expect(transitions).toEqual([{ previous: 'idle', next: 'failed', attempt: 2, code: 1011 }]);
+    });
+
+    it('should share a single attempt between concurrent connect calls', async () => {
+      let sockets = 0;
+      class CountingWebSocket extends MockWebSocket {
+        constructor(url: string) {
+          super(url);
+          sockets++;
+        }
+      }
+      const counting = new DaebusWebSocketClient({ url: 'ws://localhost:8081', WebSocket: CountingWebSocket });
+
+      await Promise.all([counting.connect(), counting.connect(), counting.reconnect()]);
+
+      expect(sockets).toBe(1);
+      counting.disconnect();
+    });
+
+    it('should reject connect when the socket closes before opening', async () => {
+      class RejectedWebSocket extends MockWebSocket {
+        constructor(url: string) {
+          super(url);
+          setTimeout(() => {
+            this.readyState = MockWebSocket.CLOSED;
+            this.dispatch('close', { code: 1008, reason: 'Policy violation' });
+          }, 1);
+        }
+      }
+      const rejected = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        reconnect: { maxAttempts: 0 },
+        WebSocket: RejectedWebSocket,
+      });
+      rejected.on('error', () => {});
+
+      await expect(rejected.connect()).rejects.toThrow('WebSocket closed before opening (code 1008)');
+      expect(rejected.state).toBe('failed');
+      rejected.disconnect();
+    });
   });
 
   describe('sendAction', () => {
@@ -173,6 +367,52 @@ describe('DaebusWebSocketClient', () => {
       ).rejects.toThrow(DaebusError);
     });
 
+    it('should include the reply deadline in the action message', async () => {
+      const sendSpy = jest.spyOn(client, 'sendToChannel');
+
+      const promise = client.sendAction('test-service', 'test_action', {}, 500);
+      const [, message] = sendSpy.mock.calls[0];
+
+      expect(message.deadline).toBe(message.timestamp! + 500);
+      await expect(promise).rejects.toMatchObject({ limit: 'deadline' });
+    });
+
+    it('should accept an options object with a timeout', async () => {
+      await expect(
+        client.sendAction('test-service', 'test_action', {}, { timeout: 50 })
+      ).rejects.toThrow(DaebusTimeoutError);
+    });
+
+    it('should cancel a pending action when the signal aborts', async () => {
+      const controller = new AbortController();
+      const sendSpy = jest.spyOn(client['ws'] as any, 'send');
+
+      const promise = client.sendAction('test-service', 'test_action', {}, {
+        signal: controller.signal,
+      });
+      const [requestId] = client['pendingRequests'].keys();
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(DaebusAbortError);
+      expect(client['pendingRequests'].has(requestId)).toBe(false);
+      expect(sendSpy).toHaveBeenLastCalledWith(JSON.stringify({
+        type: 'cancel',
+        channel: 'test-service',
+        request_id: requestId,
+      }));
+    });
+
+    it('should not send an action if the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const sendSpy = jest.spyOn(client, 'sendToChannel');
+
+      await expect(
+        client.sendAction('test-service', 'test_action', {}, { signal: controller.signal })
+      ).rejects.toThrow(DaebusAbortError);
+      expect(sendSpy).not.toHaveBeenCalled();
+    });
+
     it('should throw error if not connected', async () => {
       client.disconnect();
 
@@ -182,152 +422,1790 @@ describe('DaebusWebSocketClient', () => {
     });
   });
 
-  describe('channel subscription', () => {
+  describe('streaming actions', () => {
+    // Answer each action with progress updates followed by a response
+    const replyWith = (updates: unknown[], response: Record<string, unknown>) => {
+      client['sendToChannel'] = jest.fn((_channel, message) => {
+        setTimeout(() => {
+          for (const data of updates) {
+            client['handleMessage'](JSON.stringify({ type: 'progress', request_id: message.request_id, data }));
+          }
+          client['handleMessage'](JSON.stringify({ type: 'response', request_id: message.request_id, ...response }));
+        }, 10);
+      });
+    };
+
     beforeEach(async () => {
       await client.connect();
     });
 
-    it('should subscribe to channel', async () => {
-      const handler = jest.fn();
-      
-      await client.subscribeToChannel('test-channel', handler);
+    it('should report progress to onProgress before resolving', async () => {
+      replyWith([{ percent: 50 }, { percent: 100 }], { success: true, data: { done: true } });
+      const onProgress = jest.fn();
 
-      // Simulate channel message
-      client['handleChannelMessage']({ channel: 'test-channel', data: { test: 'data' } });
+      const result = await client.sendAction('svc', 'update_firmware', {}, { onProgress });
 
-      expect(handler).toHaveBeenCalledWith({ test: 'data' });
+      expect(result).toEqual({ done: true });
+      expect(onProgress.mock.calls).toEqual([[{ percent: 50 }], [{ percent: 100 }]]);
     });
 
-    it('should unsubscribe from channel', async () => {
-      const handler = jest.fn();
-      
-      await client.subscribeToChannel('test-channel', handler);
-      await client.unsubscribeFromChannel('test-channel');
+    it('should yield progress from streamAction until the response', async () => {
+      replyWith([{ percent: 50 }, { percent: 100 }], { success: true, data: { done: true } });
 
-      // Simulate channel message - should not call handler
-      client['handleChannelMessage']({ channel: 'test-channel', data: { test: 'data' } });
+      const stream = client.streamAction('svc', 'update_firmware', {});
+      const updates: unknown[] = [];
+      for await (const update of stream) {
+        updates.push(update);
+      }
 
-      expect(handler).not.toHaveBeenCalled();
+      expect(updates).toEqual([{ percent: 50 }, { percent: 100 }]);
+      await expect(stream.result).resolves.toEqual({ done: true });
     });
 
-    it('should throw error when subscribing if not connected', async () => {
-      client.disconnect();
+    it('should accept chunk messages as progress', async () => {
+      client['sendToChannel'] = jest.fn((_channel, message) => {
+        setTimeout(() => {
+          client['handleMessage'](JSON.stringify({ type: 'chunk', request_id: message.request_id, data: 'a' }));
+          client['handleResponse']({ success: true, data: 'done', request_id: message.request_id });
+        }, 10);
+      });
 
-      await expect(
-        client.subscribeToChannel('test-channel', jest.fn())
-      ).rejects.toThrow(DaebusConnectionError);
+      const stream = client.streamAction('svc', 'scan', {});
+      const chunks: unknown[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(['a']);
+    });
+
+    it('should throw from the iterator when the action fails', async () => {
+      replyWith([{ percent: 10 }], { success: false, error: 'Flash failed' });
+
+      const stream = client.streamAction('svc', 'update_firmware', {});
+      const updates: unknown[] = [];
+      const iterate = async () => {
+        for await (const update of stream) {
+          updates.push(update);
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow('Flash failed');
+      await expect(stream.result).rejects.toThrow(DaebusError);
+      expect(updates).toEqual([{ percent: 10 }]);
+    });
+
+    it('should ignore progress for unknown requests', () => {
+      expect(() => client['handleMessage'](JSON.stringify({
+        type: 'progress',
+        request_id: 'req_unknown',
+        data: {},
+      }))).not.toThrow();
     });
   });
 
-  describe('broadcasting', () => {
+  describe('action handlers', () => {
+    let sendSpy: jest.SpyInstance;
+    // Replies published by the client
+    const replies = () => sendSpy.mock.calls
+      .map(([data]) => JSON.parse(data))
+      .filter(({ type }) => type === 'publish');
+    const request = (message: Record<string, unknown>) => {
+      client['handleChannelMessage']({ channel: 'ui', data: message });
+    };
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
     beforeEach(async () => {
       await client.connect();
+      sendSpy = jest.spyOn(client['ws'] as any, 'send');
     });
 
-    it('should broadcast message to channel', () => {
-      const testData = { message: 'test broadcast' };
-      
-      expect(() => {
-        client.broadcast('test-channel', testData);
-      }).not.toThrow();
+    it('should subscribe to the service channel', async () => {
+      await client.registerAction('ui', 'confirm', z.object({}), () => true);
+
+      expect(JSON.parse(sendSpy.mock.calls[0][0])).toMatchObject({ type: 'subscribe', channel: 'ui' });
     });
 
-    it('should throw error when broadcasting if not connected', () => {
-      client.disconnect();
+    it('should answer requests on their reply channel', async () => {
+      const handler = jest.fn(async ({ question }: { question: string }) => question.length > 0);
+      await client.registerAction('ui', 'confirm', z.object({ question: z.string() }), handler);
 
-      expect(() => {
-        client.broadcast('test-channel', { test: 'data' });
-      }).toThrow(DaebusConnectionError);
-    });
-  });
+      request({ action: 'confirm', payload: { question: 'Reboot?' }, reply_channel: 'reply_1', request_id: '1' });
+      await flush();
 
-  describe('message handling', () => {
-    beforeEach(async () => {
-      await client.connect();
+      expect(handler).toHaveBeenCalledWith(
+        { question: 'Reboot?' },
+        expect.objectContaining({ action: 'confirm', requestId: '1' })
+      );
+      expect(replies()).toEqual([{
+        type: 'publish',
+        channel: 'reply_1',
+        data: { success: true, data: true, request_id: '1' },
+      }]);
     });
 
-    it('should handle response messages', () => {
-      const requestId = 'test-request-id';
-      const mockRequest = {
-        resolve: jest.fn(),
-        reject: jest.fn(),
-        timeout: setTimeout(() => {}, 1000),
-      };
+    it('should reply with an error when the payload is invalid', async () => {
+      const handler = jest.fn();
+      await client.registerAction('ui', 'confirm', z.object({ question: z.string() }), handler);
 
-      client['pendingRequests'].set(requestId, mockRequest);
+      request({ action: 'confirm', payload: { question: 42 }, reply_channel: 'reply_1', request_id: '1' });
+      await flush();
 
-      client['handleResponse']({
-        success: true,
-        data: { result: 'success' },
-        request_id: requestId,
+      expect(handler).not.toHaveBeenCalled();
+      expect(replies()[0].data).toMatchObject({ success: false, request_id: '1' });
+      expect(replies()[0].data.error).toMatch(/Invalid request for action confirm/);
+    });
+
+    it('should reply with the error a handler throws', async () => {
+      await client.registerAction('ui', 'confirm', z.object({}), async () => {
+        throw new Error('User declined');
       });
 
-      expect(mockRequest.resolve).toHaveBeenCalledWith({ result: 'success' });
-      expect(client['pendingRequests'].has(requestId)).toBe(false);
+      request({ action: 'confirm', payload: {}, reply_channel: 'reply_1', request_id: '1' });
+      await flush();
+
+      expect(replies()[0].data).toEqual({ success: false, error: 'User declined', request_id: '1' });
     });
 
-    it('should handle error response messages', () => {
-      const requestId = 'test-request-id';
-      const mockRequest = {
-        resolve: jest.fn(),
-        reject: jest.fn(),
-        timeout: setTimeout(() => {}, 1000),
-      };
+    it('should ignore other actions and requests without a reply channel', async () => {
+      const handler = jest.fn();
+      await client.registerAction('ui', 'confirm', z.object({}), handler);
 
-      client['pendingRequests'].set(requestId, mockRequest);
+      request({ action: 'prompt', payload: {}, reply_channel: 'reply_1', request_id: '1' });
+      request({ action: 'confirm', payload: {}, request_id: '2' });
+      await flush();
 
-      client['handleResponse']({
-        success: false,
-        error: 'Test error',
-        request_id: requestId,
-      });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(replies()).toEqual([]);
+    });
 
-      expect(mockRequest.reject).toHaveBeenCalledWith(expect.any(DaebusError));
-      expect(client['pendingRequests'].has(requestId)).toBe(false);
+    it('should refuse to register an action twice', async () => {
+      const registration = await client.registerAction('ui', 'confirm', z.object({}), jest.fn());
+
+      await expect(
+        client.registerAction('ui', 'confirm', z.object({}), jest.fn())
+      ).rejects.toThrow('Action confirm is already registered for ui');
+
+      registration.unregister();
+      await expect(
+        client.registerAction('ui', 'confirm', z.object({}), jest.fn())
+      ).resolves.toMatchObject({ action: 'confirm', active: true });
     });
 
-    it('should handle invalid JSON messages', () => {
-      const errorSpy = jest.fn();
-      client.on('error', errorSpy);
+    it('should stop answering once unregistered', async () => {
+      const handler = jest.fn();
+      const registration = await client.registerAction('ui', 'confirm', z.object({}), handler);
 
-      client['handleMessage']('invalid json');
+      registration.unregister();
+      request({ action: 'confirm', payload: {}, reply_channel: 'reply_1', request_id: '1' });
+      await flush();
 
-      expect(errorSpy).toHaveBeenCalledWith(expect.any(DaebusError));
+      expect(registration.active).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+      const [lastFrame] = sendSpy.mock.calls[sendSpy.mock.calls.length - 1];
+      expect(JSON.parse(lastFrame)).toEqual({ type: 'unsubscribe', channel: 'ui' });
     });
   });
 
-  describe('reconnection', () => {
-    it('should attempt reconnection on unexpected close', async () => {
-      const reconnectSpy = jest.spyOn(client as any, 'scheduleReconnect');
-      
+  describe('channel subscription', () => {
+    beforeEach(async () => {
       await client.connect();
+    });
+
+    it('should subscribe to channel', async () => {
+      const handler = jest.fn();
       
-      // Simulate unexpected close (not normal 1000 code)
-      const ws = client['ws'] as any;
-      ws.readyState = MockWebSocket.CLOSED;
-      ws.emit('close', 1006, Buffer.from('Connection lost'));
+      await client.subscribeToChannel('test-channel', handler);
 
-      expect(reconnectSpy).toHaveBeenCalled();
+      // Simulate channel message
+      client['handleChannelMessage']({ channel: 'test-channel', data: { test: 'data' } });
+
+      expect(handler).toHaveBeenCalledWith({ test: 'data' }, 'test-channel');
     });
 
-    it('should not reconnect on normal close', async () => {
-      const reconnectSpy = jest.spyOn(client as any, 'scheduleReconnect');
+    it('should unsubscribe from channel', async () => {
+      const handler = jest.fn();
       
+      await client.subscribeToChannel('test-channel', handler);
+      await client.unsubscribeFromChannel('test-channel');
+
+      // Simulate channel message - should not call handler
+      client['handleChannelMessage']({ channel: 'test-channel', data: { test: 'data' } });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should resubscribe when connecting again after a clean server close', async () => {
+      const handler = jest.fn();
+      const subscription = await client.subscribeToChannel('test-channel', handler);
+      const ws = client['ws'] as unknown as MockWebSocket;
+      ws.readyState = MockWebSocket.CLOSED;
+      ws.dispatch('close', { code: 1000, reason: 'Server shutdown' });
+      expect(client.state).toBe('closed');
+
+      const sendSpy = jest.spyOn(MockWebSocket.prototype, 'send');
       await client.connect();
-      client.disconnect(); // Normal close
 
-      expect(reconnectSpy).not.toHaveBeenCalled();
+      expect(JSON.parse(sendSpy.mock.calls[0][0])).toMatchObject({ type: 'subscribe', channel: 'test-channel' });
+      expect(subscription.active).toBe(true);
     });
-  });
 
-  describe('utility methods', () => {
-    it('should generate unique request IDs', () => {
-      const id1 = client['generateRequestId']();
-      const id2 = client['generateRequestId']();
+    describe('reference counting', () => {
+      let sendSpy: jest.SpyInstance;
+      // Frames sent, without the subscribe frame IDs
+      const frames = () => sendSpy.mock.calls.map(([data]) => {
+        const { id: _id, ...frame } = JSON.parse(data);
+        return frame;
+      });
 
-      expect(id1).toMatch(/^req_\d+_\d+$/);
-      expect(id2).toMatch(/^req_\d+_\d+$/);
-      expect(id1).not.toBe(id2);
+      beforeEach(() => {
+        sendSpy = jest.spyOn(client['ws'] as any, 'send');
+      });
+
+      it('should send subscribe only for the first handler', async () => {
+        await client.subscribeToChannel('test-channel', jest.fn());
+        await client.subscribeToChannel('test-channel', jest.fn());
+
+        expect(frames()).toEqual([{ type: 'subscribe', channel: 'test-channel' }]);
+      });
+
+      it('should keep other handlers when one subscription is released', async () => {
+        const first = jest.fn();
+        const second = jest.fn();
+        const subscription = await client.subscribeToChannel('test-channel', first);
+        await client.subscribeToChannel('test-channel', second);
+
+        subscription.unsubscribe();
+        client['handleChannelMessage']({ channel: 'test-channel', data: { n: 1 } });
+
+        expect(subscription.active).toBe(false);
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledWith({ n: 1 }, 'test-channel');
+        expect(frames()).not.toContainEqual({ type: 'unsubscribe', channel: 'test-channel' });
+      });
+
+      it('should send unsubscribe after the last handler leaves', async () => {
+        const first = await client.subscribeToChannel('test-channel', jest.fn());
+        const second = await client.subscribeToChannel('test-channel', jest.fn());
+
+        first.unsubscribe();
+        second.unsubscribe();
+        second.unsubscribe(); // Releasing twice is a no-op
+
+        expect(frames()).toEqual([
+          { type: 'subscribe', channel: 'test-channel' },
+          { type: 'unsubscribe', channel: 'test-channel' },
+        ]);
+      });
+
+      it('should count the same handler subscribed twice separately', async () => {
+        const handler = jest.fn();
+        const first = await client.subscribeToChannel('test-channel', handler);
+        await client.subscribeToChannel('test-channel', handler);
+
+        first.unsubscribe();
+        client['handleChannelMessage']({ channel: 'test-channel', data: { n: 1 } });
+
+        expect(handler).toHaveBeenCalledTimes(1);
+      });
+
+      it('should release every handler on unsubscribeFromChannel', async () => {
+        const subscription = await client.subscribeToChannel('test-channel', jest.fn());
+        await client.subscribeToChannel('test-channel', jest.fn());
+
+        await client.unsubscribeFromChannel('test-channel');
+        subscription.unsubscribe();
+
+        expect(frames().filter(({ type }) => type === 'unsubscribe')).toHaveLength(1);
+      });
+    });
+
+    describe('patterns', () => {
+      it('should flag pattern subscriptions on the wire', async () => {
+        const sendSpy = jest.spyOn(client['ws'] as any, 'send');
+
+        const subscription = await client.subscribeToChannel('device.*.status', jest.fn());
+        subscription.unsubscribe();
+
+        const frames = sendSpy.mock.calls.map(([data]) => {
+          const { id: _id, ...frame } = JSON.parse(data);
+          return frame;
+        });
+        expect(frames).toEqual([
+          { type: 'subscribe', channel: 'device.*.status', pattern: true },
+          { type: 'unsubscribe', channel: 'device.*.status', pattern: true },
+        ]);
+      });
+
+      it('should pass matching messages with the concrete channel name', async () => {
+        const handler = jest.fn();
+        await client.subscribeToChannel('device.*.status', handler);
+
+        client['handleChannelMessage']({ channel: 'device.42.status', data: { online: true } });
+        client['handleChannelMessage']({ channel: 'device.42.fan.status', data: { online: true } });
+        client['handleChannelMessage']({ channel: 'device.42.config', data: { online: true } });
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith({ online: true }, 'device.42.status');
+      });
+
+      it('should deliver once to exact and pattern subscribers alike', async () => {
+        const exact = jest.fn();
+        const pattern = jest.fn();
+        const other = jest.fn();
+        await client.subscribeToChannel('device.42.status', exact);
+        await client.subscribeToChannel('device.*.status', pattern);
+        await client.subscribeToChannel('*.42.status', other);
+
+        client['handleChannelMessage']({ channel: 'device.42.status', data: { online: false } });
+
+        expect(exact).toHaveBeenCalledTimes(1);
+        expect(pattern).toHaveBeenCalledTimes(1);
+        expect(other).toHaveBeenCalledWith({ online: false }, 'device.42.status');
+      });
+
+      it('should stop dispatching once the pattern is released', async () => {
+        const handler = jest.fn();
+        const subscription = await client.subscribeToChannel('device.*.status', handler);
+
+        subscription.unsubscribe();
+        client['handleChannelMessage']({ channel: 'device.42.status', data: { online: true } });
+
+        expect(handler).not.toHaveBeenCalled();
+      });
+
+      it('should refuse to broadcast to a pattern', () => {
+        expect(() => client.broadcast('device.*.status', {})).toThrow(DaebusError);
+      });
+    });
+
+    describe('acknowledgements', () => {
+      let frames: any[];
+
+      // Capture subscribe frames without answering them
+      beforeEach(() => {
+        frames = [];
+        jest.spyOn(client['ws'] as any, 'send').mockImplementation((data: any) => {
+          frames.push(JSON.parse(data));
+        });
+      });
+
+      const reply = (message: Record<string, unknown>) => {
+        client['handleMessage'](JSON.stringify(message));
+      };
+
+      it('should resolve only once the server acknowledges the subscription', async () => {
+        let resolved = false;
+        const subscribing = client.subscribeToChannel('test-channel', jest.fn()).then(() => {
+          resolved = true;
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(resolved).toBe(false);
+        expect(frames[0]).toEqual({ type: 'subscribe', channel: 'test-channel', id: expect.any(String) });
+
+        reply({ type: 'subscribed', id: frames[0].id, channel: 'test-channel' });
+        await subscribing;
+        expect(resolved).toBe(true);
+      });
+
+      it('should reject with the server error on subscribe_error', async () => {
+        const handler = jest.fn();
+        const subscribing = client.subscribeToChannel('secret', handler);
+        reply({
+          type: 'subscribe_error',
+          id: frames[0].id,
+          channel: 'secret',
+          error: 'not authorized',
+          code: 'FORBIDDEN',
+        });
+
+        await expect(subscribing).rejects.toBeInstanceOf(DaebusSubscriptionError);
+        await expect(subscribing).rejects.toMatchObject({
+          channel: 'secret',
+          serverCode: 'FORBIDDEN',
+          message: 'Failed to subscribe to secret: not authorized',
+        });
+        expect(client['subscribedChannels'].has('secret')).toBe(false);
+        expect(client.listenerCount('channel:secret')).toBe(0);
+      });
+
+      it('should ignore acks without a subscription ID', async () => {
+        const subscribing = client.subscribeToChannel('secret', jest.fn());
+        reply({ type: 'subscribe_error', channel: 'secret', error: 'not authorized' });
+        reply({ type: 'subscribed', id: frames[0].id, channel: 'secret' });
+
+        await expect(subscribing).resolves.toMatchObject({ channel: 'secret', active: true });
+      });
+
+      it('should name the subscribed channel when the error leaves it out', async () => {
+        const subscribing = client.subscribeToChannel('secret', jest.fn());
+        reply({ type: 'subscribe_error', id: frames[0].id, error: 'not authorized' });
+
+        await expect(subscribing).rejects.toMatchObject({
+          channel: 'secret',
+          message: 'Failed to subscribe to secret: not authorized',
+        });
+      });
+
+      it('should reject when no ack arrives in time', async () => {
+        client['options'].timeout = 20;
+
+        await expect(client.subscribeToChannel('test-channel', jest.fn())).rejects.toThrow(
+          'Subscription to test-channel was not acknowledged'
+        );
+      });
+
+      it('should let concurrent subscribers share one frame and ack', async () => {
+        const first = client.subscribeToChannel('test-channel', jest.fn());
+        const second = client.subscribeToChannel('test-channel', jest.fn());
+        reply({ type: 'subscribed', id: frames[0].id, channel: 'test-channel' });
+
+        await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+        expect(frames).toHaveLength(1);
+      });
+
+      it('should reject pending subscriptions on disconnect', async () => {
+        const subscribing = client.subscribeToChannel('test-channel', jest.fn());
+
+        client.disconnect();
+
+        await expect(subscribing).rejects.toThrow(DaebusConnectionError);
+      });
+
+      it('should report channels that fail to resubscribe after a reconnect', async () => {
+        const subscribing = client.subscribeToChannel('test-channel', jest.fn());
+        reply({ type: 'subscribed', id: frames[0].id, channel: 'test-channel' });
+        const subscription = await subscribing;
+        const errorSpy = jest.fn();
+        client.on('subscription_error', errorSpy);
+
+        client['resubscribeToChannels']();
+        reply({ type: 'subscribe_error', id: frames[1].id, channel: 'test-channel', error: 'gone' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(errorSpy).toHaveBeenCalledWith('test-channel', expect.any(DaebusSubscriptionError));
+        expect(subscription.active).toBe(false);
+        expect(client['subscribedChannels'].has('test-channel')).toBe(false);
+      });
+
+      it('should resolve without waiting when acks are disabled', async () => {
+        client['options'].subscriptionAcks = false;
+
+        await expect(client.subscribeToChannel('test-channel', jest.fn())).resolves.toMatchObject({
+          channel: 'test-channel',
+          active: true,
+        });
+      });
+    });
+
+    describe('sequence numbers', () => {
+      const publish = (channel: string, seq: number, data: unknown = { seq }) => {
+        client['handleChannelMessage']({ channel, data, seq });
+      };
+      const dropConnection = () => {
+        const ws = client['ws'] as any;
+        ws.readyState = MockWebSocket.CLOSED;
+        ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+      };
+
+      it('should drop duplicates and report gaps', async () => {
+        const handler = jest.fn();
+        const gapSpy = jest.fn();
+        client.on('gap', gapSpy);
+        await client.subscribeToChannel('feed', handler);
+
+        publish('feed', 1);
+        publish('feed', 2);
+        publish('feed', 2);
+        publish('feed', 5);
+
+        expect(handler.mock.calls.map(([data]) => data.seq)).toEqual([1, 2, 5]);
+        expect(gapSpy).toHaveBeenCalledTimes(1);
+        expect(gapSpy).toHaveBeenCalledWith({ channel: 'feed', expected: 3, received: 5 });
+      });
+
+      it('should send the last seen offsets when resubscribing', async () => {
+        await client.subscribeToChannel('feed', jest.fn());
+        await client.subscribeToChannel('device.*.status', jest.fn());
+        publish('feed', 7);
+        publish('device.1.status', 3);
+        publish('device.2.status', 9);
+        dropConnection();
+
+        const sendSpy = jest.spyOn(MockWebSocket.prototype, 'send');
+        await client.reconnect();
+
+        const frames = sendSpy.mock.calls.map(([data]) => JSON.parse(data));
+        expect(frames).toEqual([
+          { type: 'subscribe', channel: 'feed', offsets: { feed: 7 }, id: expect.any(String) },
+          {
+            type: 'subscribe',
+            channel: 'device.*.status',
+            pattern: true,
+            offsets: { 'device.1.status': 3, 'device.2.status': 9 },
+            id: expect.any(String),
+          },
+        ]);
+      });
+
+      it('should forget offsets once a channel is unsubscribed', async () => {
+        const subscription = await client.subscribeToChannel('feed', jest.fn());
+        publish('feed', 7);
+        subscription.unsubscribe();
+
+        const sendSpy = jest.spyOn(client['ws'] as any, 'send');
+        await client.subscribeToChannel('feed', jest.fn());
+
+        expect(JSON.parse(sendSpy.mock.calls[0][0])).not.toHaveProperty('offsets');
+      });
+
+      describe('restarted sequence', () => {
+        let handler: jest.Mock;
+        let gapSpy: jest.Mock;
+
+        beforeEach(async () => {
+          handler = jest.fn();
+          gapSpy = jest.fn();
+          client.on('gap', gapSpy);
+          await client.subscribeToChannel('feed', handler);
+          for (let seq = 1; seq <= 5; seq++) {
+            publish('feed', seq);
+          }
+          handler.mockClear();
+          dropConnection();
+        });
+
+        const expectRestartAccepted = () => {
+          publish('feed', 1);
+          publish('feed', 2);
+          publish('feed', 2);
+          publish('feed', 3);
+
+          expect(handler.mock.calls.map(([data]) => data.seq)).toEqual([1, 2, 3]);
+          expect(gapSpy).toHaveBeenCalledWith({ channel: 'feed', expected: 6, received: 1 });
+          expect(client.isChannelStale('feed')).toBe(false);
+        };
+
+        it('should accept it when the ack says nothing about replay', async () => {
+          await client.reconnect();
+
+          expectRestartAccepted();
+        });
+
+        it('should accept it when acks are disabled', async () => {
+          client['options'].subscriptionAcks = false;
+          await client.reconnect();
+
+          expectRestartAccepted();
+        });
+      });
+
+      it('should mark channels stale while disconnected until a message arrives', async () => {
+        const staleSpy = jest.fn();
+        client.on('stale', staleSpy);
+        await client.subscribeToChannel('feed', jest.fn());
+
+        dropConnection();
+        expect(client.isChannelStale('feed')).toBe(true);
+
+        await client.reconnect();
+        expect(client.isChannelStale('feed')).toBe(true);
+
+        publish('feed', 1);
+        expect(client.isChannelStale('feed')).toBe(false);
+        expect(staleSpy.mock.calls).toEqual([['feed', true], ['feed', false]]);
+      });
+
+      describe('replay outcome', () => {
+        let frames: any[];
+        let handler: jest.Mock;
+
+        beforeEach(async () => {
+          handler = jest.fn();
+          await client.subscribeToChannel('feed', handler);
+          publish('feed', 4);
+          client['markChannelsStale']();
+
+          frames = [];
+          jest.spyOn(client['ws'] as any, 'send').mockImplementation((data: any) => {
+            frames.push(JSON.parse(data));
+          });
+          client['resubscribeToChannels']();
+        });
+
+        const ack = (fields: Record<string, unknown>) => {
+          client['handleMessage'](JSON.stringify({
+            type: 'subscribed',
+            id: frames[0].id,
+            channel: 'feed',
+            ...fields,
+          }));
+        };
+
+        it('should clear stale once the server confirms the replay', () => {
+          ack({ replayed: true });
+
+          expect(client.isChannelStale('feed')).toBe(false);
+        });
+
+        it('should drop replayed duplicates after a confirmed replay', () => {
+          ack({ replayed: true });
+          publish('feed', 4);
+          publish('feed', 5);
+
+          expect(handler.mock.calls.map(([data]) => data.seq)).toEqual([4, 5]);
+        });
+
+        it('should report a gap when the server cannot replay', () => {
+          const gapSpy = jest.fn();
+          client.on('gap', gapSpy);
+
+          ack({ replayed: false });
+
+          expect(gapSpy).toHaveBeenCalledWith({ channel: 'feed', expected: 5 });
+          expect(client.isChannelStale('feed')).toBe(true);
+        });
+
+        it('should accept a restarted sequence when the server cannot replay', () => {
+          ack({ replayed: false });
+          publish('feed', 1);
+          publish('feed', 2);
+
+          expect(handler.mock.calls.map(([data]) => data.seq)).toEqual([4, 1, 2]);
+          expect(client.isChannelStale('feed')).toBe(false);
+        });
+
+        it('should stay stale when the ack says nothing about replay', () => {
+          ack({});
+
+          expect(client.isChannelStale('feed')).toBe(true);
+        });
+      });
+    });
+
+    it('should throw error when subscribing if not connected', async () => {
+      client.disconnect();
+
+      await expect(
+        client.subscribeToChannel('test-channel', jest.fn())
+      ).rejects.toThrow(DaebusConnectionError);
+    });
+  });
+
+  describe('broadcasting', () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it('should broadcast message to channel', () => {
+      const testData = { message: 'test broadcast' };
+      
+      expect(() => {
+        client.broadcast('test-channel', testData);
+      }).not.toThrow();
+    });
+
+    it('should throw error when broadcasting if not connected', () => {
+      client.disconnect();
+
+      expect(() => {
+        client.broadcast('test-channel', { test: 'data' });
+      }).toThrow(DaebusConnectionError);
+    });
+  });
+
+  describe('message handling', () => {
+    beforeEach(async () => {
+      await client.connect();
+    });
+
+    it('should handle response messages', () => {
+      const requestId = 'test-request-id';
+      const mockRequest = {
+        resolve: jest.fn(),
+        reject: jest.fn(),
+        timeout: setTimeout(() => {}, 1000),
+      };
+
+      client['pendingRequests'].set(requestId, mockRequest);
+
+      client['handleResponse']({
+        success: true,
+        data: { result: 'success' },
+        request_id: requestId,
+      });
+
+      expect(mockRequest.resolve).toHaveBeenCalledWith({ result: 'success' });
+      expect(client['pendingRequests'].has(requestId)).toBe(false);
+    });
+
+    it('should handle error response messages', () => {
+      const requestId = 'test-request-id';
+      const mockRequest = {
+        resolve: jest.fn(),
+        reject: jest.fn(),
+        timeout: setTimeout(() => {}, 1000),
+      };
+
+      client['pendingRequests'].set(requestId, mockRequest);
+
+      client['handleResponse']({
+        success: false,
+        error: 'Test error',
+        request_id: requestId,
+      });
+
+      expect(mockRequest.reject).toHaveBeenCalledWith(expect.any(DaebusError));
+      expect(client['pendingRequests'].has(requestId)).toBe(false);
+    });
+
+    it('should handle invalid JSON messages', () => {
+      const errorSpy = jest.fn();
+      client.on('error', errorSpy);
+
+      client['handleMessage']('invalid json');
+
+      expect(errorSpy).toHaveBeenCalledWith(expect.any(DaebusError));
+    });
+  });
+
+  describe('validation', () => {
+    const schema = defineSchema({
+      actions: {
+        set_level: action(
+          z.object({ level: z.number().min(0).max(10) }),
+          z.object({ applied: z.boolean() })
+        ),
+        flash: action(
+          z.object({ image: z.string() }),
+          z.object({ applied: z.boolean() }),
+          { progress: z.object({ percent: z.number() }) }
+        ),
+      },
+      channels: {
+        temperature: channel(z.object({ celsius: z.number() })),
+        'device.*.status': channel(z.object({ online: z.boolean() })),
+      },
+      routes: {},
+    });
+
+    let validatingClient: DaebusWebSocketClient<typeof schema>;
+
+    beforeEach(async () => {
+      validatingClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 1000,
+        schema,
+        validate: true,
+        WebSocket: MockWebSocket,
+      });
+      await validatingClient.connect();
+    });
+
+    afterEach(() => {
+      validatingClient.disconnect();
+    });
+
+    const replyWith = (data: unknown) => {
+      validatingClient['sendToChannel'] = jest.fn((_channel, message) => {
+        setTimeout(() => {
+          validatingClient['handleResponse']({
+            success: true,
+            data,
+            request_id: message.request_id,
+          });
+        }, 10);
+      });
+    };
+
+    it('should reject invalid action payloads before sending', async () => {
+      const sendSpy = jest.spyOn(validatingClient, 'sendToChannel');
+
+      await expect(
+        validatingClient.sendAction('svc', 'set_level', { level: 42 })
+      ).rejects.toMatchObject({ side: 'request', code: 'VALIDATION_ERROR' });
+      expect(sendSpy).not.toHaveBeenCalled();
+    });
+
+    it('should resolve with validated action output', async () => {
+      replyWith({ applied: true });
+
+      await expect(
+        validatingClient.sendAction('svc', 'set_level', { level: 5 })
+      ).resolves.toEqual({ applied: true });
+    });
+
+    it('should reject action output that does not match the schema', async () => {
+      replyWith({ applied: 'yes' });
+
+      const promise = validatingClient.sendAction('svc', 'set_level', { level: 5 });
+
+      await expect(promise).rejects.toThrow(DaebusValidationError);
+      await expect(promise).rejects.toMatchObject({ side: 'response' });
+    });
+
+    it('should drop invalid channel messages and emit invalid_message', async () => {
+      const handler = jest.fn();
+      const invalidSpy = jest.fn();
+      validatingClient.on('invalid_message', invalidSpy);
+      await validatingClient.subscribeToChannel('temperature', handler);
+
+      validatingClient['handleChannelMessage']({ channel: 'temperature', data: { celsius: 'hot' } });
+      validatingClient['handleChannelMessage']({ channel: 'temperature', data: { celsius: 21 } });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ celsius: 21 }, 'temperature');
+      expect(invalidSpy).toHaveBeenCalledWith(
+        'temperature',
+        { celsius: 'hot' },
+        expect.any(DaebusValidationError)
+      );
+    });
+
+    it('should drop progress updates that do not match the progress schema', async () => {
+      validatingClient['sendToChannel'] = jest.fn((_channel, message) => {
+        setTimeout(() => {
+          for (const percent of [10, 'half', 100]) {
+            validatingClient['handleMessage'](JSON.stringify({
+              type: 'progress',
+              request_id: message.request_id,
+              data: { percent },
+            }));
+          }
+          validatingClient['handleResponse']({
+            success: true,
+            data: { applied: true },
+            request_id: message.request_id,
+          });
+        }, 10);
+      });
+      const invalidSpy = jest.fn();
+      validatingClient.on('invalid_message', invalidSpy);
+
+      const stream = validatingClient.streamAction('svc', 'flash', { image: 'v2' });
+      const updates: unknown[] = [];
+      for await (const update of stream) {
+        updates.push(update.percent);
+      }
+
+      expect(updates).toEqual([10, 100]);
+      expect(invalidSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^reply_/),
+        { percent: 'half' },
+        expect.any(DaebusValidationError)
+      );
+    });
+
+    describe('shared between services', () => {
+      const otherSchema = defineSchema({
+        actions: {
+          set_level: action(z.object({ level: z.string() }), z.object({ applied: z.boolean() })),
+        },
+        channels: {
+          humidity: channel(z.object({ percent: z.number() })),
+        },
+        routes: {},
+      });
+
+      // Like a managed connection: no schema of its own, one per service
+      let sharedClient: DaebusWebSocketClient;
+
+      beforeEach(async () => {
+        sharedClient = new DaebusWebSocketClient({
+          url: 'ws://localhost:8081',
+          timeout: 1000,
+          validate: true,
+          WebSocket: MockWebSocket,
+        });
+        sharedClient.registerSchema('svc', schema);
+        await sharedClient.connect();
+        jest.spyOn(sharedClient, 'sendToChannel').mockImplementation((_channel, message) => {
+          setTimeout(() => {
+            sharedClient['handleResponse']({ success: true, data: { applied: true }, request_id: message.request_id });
+          }, 10);
+        });
+      });
+
+      afterEach(() => {
+        sharedClient.disconnect();
+      });
+
+      it('should validate actions against the schema registered for their service', async () => {
+        sharedClient.registerSchema('other', otherSchema);
+
+        await expect(
+          sharedClient.sendAction('other', 'set_level', { level: 5 })
+        ).rejects.toMatchObject({ side: 'request' });
+        await expect(
+          sharedClient.sendAction('svc', 'set_level', { level: 'high' })
+        ).rejects.toMatchObject({ side: 'request' });
+      });
+
+      it('should not validate a service without a schema against another one', async () => {
+        await expect(
+          sharedClient.sendAction('plain', 'set_level', { level: 'high' })
+        ).resolves.toEqual({ applied: true });
+      });
+
+      it('should validate channels against the schema of the subscribing service', async () => {
+        sharedClient.registerSchema('other', otherSchema);
+        const handler = jest.fn();
+        const invalidSpy = jest.fn();
+        sharedClient.on('invalid_message', invalidSpy);
+        await sharedClient.subscribeToChannel('humidity', handler, 'other');
+
+        sharedClient['handleChannelMessage']({ channel: 'humidity', data: { percent: 'damp' } });
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(invalidSpy).toHaveBeenCalledWith('humidity', { percent: 'damp' }, expect.any(DaebusValidationError));
+      });
+
+      it('should not validate channels of a service without a schema against another one', async () => {
+        const handler = jest.fn();
+        await sharedClient.subscribeToChannel('temperature', handler, 'plain');
+
+        sharedClient['handleChannelMessage']({ channel: 'temperature', data: { celsius: 'hot' } });
+
+        expect(handler).toHaveBeenCalledWith({ celsius: 'hot' }, 'temperature');
+      });
+
+      it('should stop using a schema once unregistered', async () => {
+        const unregister = sharedClient.registerSchema('other', otherSchema);
+        unregister();
+
+        await expect(
+          sharedClient.sendAction('other', 'set_level', { level: 5 })
+        ).resolves.toEqual({ applied: true });
+      });
+    });
+
+    it('should validate pattern subscriptions against the pattern schema', async () => {
+      const handler = jest.fn();
+      const invalidSpy = jest.fn();
+      validatingClient.on('invalid_message', invalidSpy);
+      await validatingClient.subscribeToChannel('device.*.status', handler);
+
+      validatingClient['handleChannelMessage']({ channel: 'device.7.status', data: { online: 'yes' } });
+      validatingClient['handleChannelMessage']({ channel: 'device.7.status', data: { online: true } });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ online: true }, 'device.7.status');
+      expect(invalidSpy).toHaveBeenCalledTimes(1);
+      expect(invalidSpy).toHaveBeenCalledWith(
+        'device.7.status',
+        { online: 'yes' },
+        expect.any(DaebusValidationError)
+      );
+    });
+  });
+
+  describe('in-flight actions on unexpected close', () => {
+    const schema = defineSchema({
+      actions: {
+        read_status: action(z.object({}), z.object({ ok: z.boolean() }), { idempotent: true }),
+        restart: action(z.object({}), z.object({ ok: z.boolean() })),
+      },
+      channels: {},
+      routes: {},
+    });
+
+    let flightClient: DaebusWebSocketClient<typeof schema>;
+    let sent: any[];
+
+    const createClient = (inFlightPolicy?: 'reject' | 'resend') => {
+      flightClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 1000,
+        schema,
+        inFlightPolicy,
+        reconnect: { baseDelay: 20, jitter: false },
+        WebSocket: MockWebSocket,
+      });
+      flightClient.on('error', () => {});
+      return flightClient.connect();
+    };
+
+    const dropConnection = () => {
+      const ws = flightClient['ws'] as any;
+      ws.readyState = MockWebSocket.CLOSED;
+      ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+    };
+
+    beforeEach(() => {
+      sent = [];
+      jest.spyOn(MockWebSocket.prototype, 'send').mockImplementation((data: string) => {
+        sent.push(JSON.parse(data));
+      });
+    });
+
+    afterEach(() => {
+      flightClient.disconnect();
+    });
+
+    it('should reject pending actions right away with the close code', async () => {
+      await createClient();
+      const result = flightClient.sendAction('test-service', 'read_status', {});
+
+      dropConnection();
+
+      await expect(result).rejects.toThrow(DaebusConnectionError);
+      await expect(result).rejects.toMatchObject({ closeCode: 1006 });
+      expect(flightClient['pendingRequests'].size).toBe(0);
+    });
+
+    it('should resend idempotent actions after reconnecting', async () => {
+      await createClient('resend');
+      const onInterrupt = jest.fn();
+      const result = flightClient.sendAction('test-service', 'read_status', {}, { onInterrupt });
+      const { request_id } = sent[0].data;
+
+      dropConnection();
+      expect(onInterrupt).toHaveBeenCalledWith(expect.objectContaining({ closeCode: 1006 }));
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(flightClient.isConnected()).toBe(true);
+      expect(sent).toHaveLength(2);
+      expect(sent[1].data).toMatchObject({ action: 'read_status', request_id });
+
+      flightClient['handleResponse']({ type: 'response', request_id, data: { ok: true } } as any);
+      await expect(result).resolves.toEqual({ ok: true });
+    });
+
+    it('should still reject actions that are not idempotent', async () => {
+      await createClient('resend');
+      const result = flightClient.sendAction('test-service', 'restart', {});
+
+      dropConnection();
+
+      await expect(result).rejects.toMatchObject({ closeCode: 1006 });
+    });
+
+    it('should reject interrupted actions when reconnection gives up', async () => {
+      await createClient('resend');
+      const result = flightClient.sendAction('test-service', 'read_status', {});
+      flightClient['reconnectPolicy'].maxAttempts = 0;
+
+      dropConnection();
+
+      await expect(result).rejects.toThrow('Max reconnection attempts exceeded');
+    });
+  });
+
+  describe('outbound queue', () => {
+    let queueClient: DaebusWebSocketClient;
+    let sent: any[];
+
+    beforeEach(() => {
+      sent = [];
+      jest.spyOn(MockWebSocket.prototype, 'send').mockImplementation((data: string) => {
+        sent.push(JSON.parse(data));
+      });
+      queueClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 1000,
+        queue: { maxSize: 2, ttl: 500 },
+        WebSocket: MockWebSocket,
+      });
+    });
+
+    afterEach(() => {
+      queueClient.disconnect();
+    });
+
+    it('should still throw when the client is not connecting', () => {
+      expect(() => queueClient.broadcast('events', { n: 1 })).toThrow(DaebusConnectionError);
+    });
+
+    it('should queue messages while connecting and flush them in order on open', async () => {
+      const connecting = queueClient.connect();
+      queueClient.broadcast('events', { n: 1 });
+      queueClient.broadcast('events', { n: 2 });
+
+      expect(sent).toHaveLength(0);
+      expect(queueClient.getQueueSize()).toBe(2);
+
+      await connecting;
+
+      expect(sent.map((message) => message.data)).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(queueClient.getQueueSize()).toBe(0);
+    });
+
+    it('should send queued actions once connected and resolve their response', async () => {
+      const connecting = queueClient.connect();
+      const result = queueClient.sendAction('test-service', 'test_action', { q: 1 });
+      await connecting;
+
+      const { request_id } = sent[0].data;
+      queueClient['handleResponse']({ type: 'response', request_id, data: { ok: true } } as any);
+
+      await expect(result).resolves.toEqual({ ok: true });
+    });
+
+    it('should reject an action that does not fit in the queue', async () => {
+      const connecting = queueClient.connect();
+      queueClient.broadcast('events', { n: 1 });
+      queueClient.broadcast('events', { n: 2 });
+
+      await expect(queueClient.sendAction('test-service', 'test_action', {})).rejects.toThrow(
+        'Outbound queue is full'
+      );
+      expect(queueClient['pendingRequests'].size).toBe(0);
+      await connecting;
+    });
+
+    it('should keep the action timeout running and drop the message when it fires', async () => {
+      const connecting = queueClient.connect();
+      const result = queueClient.sendAction('test-service', 'test_action', {}, 5);
+
+      await expect(result).rejects.toThrow(DaebusTimeoutError);
+      expect(queueClient.getQueueSize()).toBe(0);
+      await connecting;
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should reject queued actions when the client is disposed', async () => {
+      const connecting = queueClient.connect().catch(() => {});
+      const result = queueClient.sendAction('test-service', 'test_action', {});
+
+      queueClient.disconnect();
+
+      await expect(result).rejects.toThrow('Connection closed');
+      expect(queueClient.getQueueSize()).toBe(0);
+      await connecting;
+    });
+
+    it('should reject queued messages when the credentials cannot be fetched', async () => {
+      const authClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 1000,
+        queue: { maxSize: 2, ttl: 500 },
+        auth: () => Promise.reject(new Error('no session')),
+        WebSocket: MockWebSocket,
+      });
+      const connecting = authClient.connect();
+      const result = authClient.sendAction('test-service', 'test_action', {});
+
+      await expect(connecting).rejects.toMatchObject({ code: 'AUTH_ERROR' });
+      await expect(result).rejects.toThrow('Could not get credentials: no session');
+      expect(authClient.getQueueSize()).toBe(0);
+      expect(authClient.state).toBe('failed');
+    });
+
+    it('should reject queued messages when the socket cannot be created', async () => {
+      class BrokenWebSocket extends MockWebSocket {
+        constructor(url: string) {
+          super(url);
+          throw new Error('Invalid URL');
+        }
+      }
+      const brokenClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 1000,
+        queue: { maxSize: 2, ttl: 500 },
+        WebSocket: BrokenWebSocket,
+      });
+      const connecting = brokenClient.connect();
+      brokenClient.broadcast('events', { n: 1 });
+
+      await expect(connecting).rejects.toThrow('Invalid URL');
+      expect(brokenClient.getQueueSize()).toBe(0);
+      expect(brokenClient.state).toBe('failed');
+    });
+  });
+
+  describe('heartbeat', () => {
+    // Answers pings after 20ms, or never when silent (a half-open connection)
+    class PingAwareWebSocket extends MockWebSocket {
+      static silent = false;
+      static sent: any[] = [];
+
+      send(data: string) {
+        const message = JSON.parse(data);
+        PingAwareWebSocket.sent.push(message);
+        if (message.type === 'ping' && !PingAwareWebSocket.silent) {
+          setTimeout(() => {
+            this.dispatch('message', { data: JSON.stringify({ type: 'pong', timestamp: message.timestamp }) });
+          }, 20);
+        }
+      }
+    }
+
+    let heartbeatClient: DaebusWebSocketClient;
+
+    const connect = async () => {
+      const connecting = heartbeatClient.connect();
+      await jest.advanceTimersByTimeAsync(10);
+      await connecting;
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      PingAwareWebSocket.silent = false;
+      PingAwareWebSocket.sent = [];
+      heartbeatClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        heartbeat: { interval: 1000, timeout: 500 },
+        reconnect: { maxAttempts: 0 },
+        WebSocket: PingAwareWebSocket,
+      });
+      heartbeatClient.on('error', () => {});
+    });
+
+    afterEach(() => {
+      heartbeatClient.disconnect();
+      jest.useRealTimers();
+    });
+
+    it('should ping after each interval and measure the round-trip time', async () => {
+      const latencySpy = jest.fn();
+      heartbeatClient.on('latency', latencySpy);
+      await connect();
+
+      expect(heartbeatClient.getLatency()).toBeNull();
+
+      await jest.advanceTimersByTimeAsync(1020);
+      expect(PingAwareWebSocket.sent).toEqual([{ type: 'ping', timestamp: expect.any(Number) }]);
+      expect(heartbeatClient.getLatency()).toBe(20);
+      expect(latencySpy).toHaveBeenCalledWith(20);
+
+      await jest.advanceTimersByTimeAsync(1020);
+      expect(PingAwareWebSocket.sent).toHaveLength(2);
+      expect(heartbeatClient.isConnected()).toBe(true);
+    });
+
+    it('should close and reconnect when pongs stop arriving', async () => {
+      const disconnectSpy = jest.fn();
+      const errorSpy = jest.fn();
+      heartbeatClient.on('disconnect', disconnectSpy);
+      heartbeatClient.on('error', errorSpy);
+      const reconnectSpy = jest.spyOn(heartbeatClient as any, 'scheduleReconnect');
+      await connect();
+
+      PingAwareWebSocket.silent = true;
+      await jest.advanceTimersByTimeAsync(1500);
+
+      expect(errorSpy).toHaveBeenCalledWith(expect.any(DaebusTimeoutError));
+      expect(disconnectSpy).toHaveBeenCalledTimes(1);
+      expect(disconnectSpy).toHaveBeenCalledWith(4000, 'Heartbeat timeout');
+      expect(reconnectSpy).toHaveBeenCalled();
+      expect(heartbeatClient.isConnected()).toBe(false);
+    });
+
+    it('should stop pinging after disconnect', async () => {
+      await connect();
+      heartbeatClient.disconnect();
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(PingAwareWebSocket.sent).toHaveLength(0);
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should attempt reconnection on unexpected close', async () => {
+      const reconnectSpy = jest.spyOn(client as any, 'scheduleReconnect');
+      
+      await client.connect();
+      
+      // Simulate unexpected close (not normal 1000 code)
+      const ws = client['ws'] as any;
+      ws.readyState = MockWebSocket.CLOSED;
+      ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+
+      expect(reconnectSpy).toHaveBeenCalled();
+    });
+
+    it('should not reconnect on normal close', async () => {
+      const reconnectSpy = jest.spyOn(client as any, 'scheduleReconnect');
+      
+      await client.connect();
+      client.disconnect(); // Normal close
+
+      expect(reconnectSpy).not.toHaveBeenCalled();
+    });
+
+    describe('backoff', () => {
+      let backoffClient: DaebusWebSocketClient;
+      let delays: number[];
+
+      const createClient = (reconnect: Record<string, unknown>) => {
+        backoffClient = new DaebusWebSocketClient({
+          url: 'ws://localhost:8081',
+          reconnect: { baseDelay: 100, maxDelay: 1000, jitter: false, ...reconnect },
+          WebSocket: MockWebSocket,
+        });
+        backoffClient.on('error', () => {});
+        backoffClient.on('reconnecting', (_attempt: number, delay: number) => delays.push(delay));
+        jest.spyOn(backoffClient, 'connect').mockRejectedValue(new Error('Service down'));
+        return backoffClient;
+      };
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        delays = [];
+      });
+
+      afterEach(() => {
+        backoffClient.disconnect();
+        jest.useRealTimers();
+      });
+
+      it('should back off exponentially up to the max delay', async () => {
+        createClient({ maxAttempts: 6 });
+
+        backoffClient['scheduleReconnect']();
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(delays).toEqual([100, 200, 400, 800, 1000, 1000]);
+      });
+
+      it('should give up after maxAttempts', async () => {
+        createClient({ maxAttempts: 2 });
+        const errorSpy = jest.fn();
+        backoffClient.on('error', errorSpy);
+
+        backoffClient['scheduleReconnect']();
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(delays).toHaveLength(2);
+        expect(errorSpy).toHaveBeenLastCalledWith(
+          expect.objectContaining({ message: 'Max reconnection attempts exceeded' })
+        );
+      });
+
+      it('should keep reconnecting forever with Infinity', async () => {
+        createClient({ maxAttempts: Infinity });
+
+        backoffClient['scheduleReconnect']();
+        await jest.advanceTimersByTimeAsync(60000);
+
+        expect(delays.length).toBeGreaterThan(50);
+      });
+
+      it('should stop reconnecting after disconnect', async () => {
+        createClient({ maxAttempts: Infinity });
+
+        backoffClient['scheduleReconnect']();
+        backoffClient.disconnect();
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(backoffClient.connect).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should reconnect immediately and reset attempts on reconnect()', async () => {
+      const connectedSpy = jest.fn();
+      client.on('connect', connectedSpy);
+      client['reconnectAttempts'] = 2;
+
+      await client.reconnect();
+
+      expect(client.isConnected()).toBe(true);
+      expect(client['reconnectAttempts']).toBe(0);
+      expect(connectedSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resubscribe to channels after reconnect()', async () => {
+      await client.connect();
+      await client.subscribeToChannel('notifications', jest.fn());
+
+      const ws = client['ws'] as any;
+      ws.readyState = MockWebSocket.CLOSED;
+      ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+
+      const sendSpy = jest.spyOn(MockWebSocket.prototype, 'send');
+      await client.reconnect();
+
+      expect(client.isConnected()).toBe(true);
+      expect(client['ws']).not.toBe(ws);
+      expect(JSON.parse(sendSpy.mock.calls[0][0])).toEqual(
+        { type: 'subscribe', channel: 'notifications', id: expect.any(String) }
+      );
+    });
+
+    it('should reconnect when the browser comes back online', async () => {
+      const globalScope = globalThis as any;
+      const listeners = new EventEmitter();
+      globalScope.addEventListener = (type: string, listener: () => void) => listeners.on(type, listener);
+      globalScope.removeEventListener = (type: string, listener: () => void) => listeners.off(type, listener);
+
+      try {
+        await client.connect();
+        const ws = client['ws'] as any;
+        ws.readyState = MockWebSocket.CLOSED;
+        ws.dispatch('close', { code: 1006, reason: 'Connection lost' });
+
+        const reconnectSpy = jest.spyOn(client, 'reconnect');
+        listeners.emit('online');
+
+        expect(reconnectSpy).toHaveBeenCalled();
+
+        client.disconnect();
+        expect(listeners.listenerCount('online')).toBe(0);
+      } finally {
+        delete globalScope.addEventListener;
+        delete globalScope.removeEventListener;
+      }
+    });
+  });
+
+  describe('request IDs', () => {
+    const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+    it('should generate unique random request IDs', () => {
+      const id1 = client['generateRequestId']();
+      const id2 = client['generateRequestId']();
+
+      expect(id1).toMatch(UUID_V4);
+      expect(id2).toMatch(UUID_V4);
+      expect(id1).not.toBe(id2);
+    });
+
+    it('should use a custom generator', async () => {
+      let counter = 0;
+      const seededClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        WebSocket: MockWebSocket,
+        generateRequestId: () => `test-${++counter}`,
+      });
+      await seededClient.connect();
+      const sendSpy = jest.spyOn(seededClient, 'sendToChannel').mockImplementation(() => undefined);
+
+      const promise = seededClient.sendAction('svc', 'ping', {});
+      seededClient.disconnect();
+      await expect(promise).rejects.toThrow(DaebusConnectionError);
+
+      expect(sendSpy).toHaveBeenCalledWith('svc', expect.objectContaining({
+        request_id: 'test-1',
+        reply_channel: 'reply_test-1',
+      }));
+    });
+
+    it('should send actions with a caller-supplied request ID', async () => {
+      await client.connect();
+      const sendSpy = jest.spyOn(client, 'sendToChannel').mockImplementation((_channel, message) => {
+        setTimeout(() => {
+          client['handleResponse']({ success: true, data: 'ok', request_id: message.request_id });
+        }, 10);
+      });
+
+      await client.sendAction('svc', 'ping', {}, { requestId: 'trace-abc' });
+
+      expect(sendSpy).toHaveBeenCalledWith('svc', expect.objectContaining({ request_id: 'trace-abc' }));
+    });
+
+    it('should reject a request ID that is already pending', async () => {
+      await client.connect();
+      jest.spyOn(client, 'sendToChannel').mockImplementation(() => undefined);
+
+      const first = client.sendAction('svc', 'ping', {}, { requestId: 'dup', timeout: 50 });
+
+      await expect(
+        client.sendAction('svc', 'ping', {}, { requestId: 'dup' })
+      ).rejects.toThrow('Request ID dup is already in use');
+      await expect(first).rejects.toThrow(DaebusTimeoutError);
+    });
+
+    it('should expose the request ID of a streaming action', async () => {
+      await client.connect();
+      const sendSpy = jest.spyOn(client, 'sendToChannel').mockImplementation((_channel, message) => {
+        setTimeout(() => {
+          client['handleResponse']({ success: true, data: 'ok', request_id: message.request_id });
+        }, 10);
+      });
+
+      const stream = client.streamAction('svc', 'scan', {});
+      await stream.result;
+
+      expect(stream.requestId).toMatch(UUID_V4);
+      expect(sendSpy).toHaveBeenCalledWith('svc', expect.objectContaining({ request_id: stream.requestId }));
+    });
+  });
+
+  describe('handshake', () => {
+    // Replies to `hello` with whatever `reply` returns; null leaves it unanswered
+    let reply: ((hello: any) => unknown) | null;
+    let sent: any[];
+    let ackSubscriptions: boolean;
+
+    class HandshakeSocket extends MockWebSocket {
+      send(data: string) {
+        const message = JSON.parse(data);
+        sent.push(message);
+        if (message.type === 'subscribe' && !ackSubscriptions) {
+          return;
+        }
+        if (message.type !== 'hello') {
+          super.send(data);
+          return;
+        }
+        const response = reply?.(message);
+        if (response) {
+          setTimeout(() => this.dispatch('message', { data: JSON.stringify(response) }), 5);
+        }
+      }
+    }
+
+    const createClient = (handshake: WebSocketClientOptions['handshake'] = true) =>
+      new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 1000,
+        reconnectInterval: 100,
+        handshake,
+        WebSocket: HandshakeSocket,
+      });
+
+    beforeEach(() => {
+      sent = [];
+      ackSubscriptions = true;
+      reply = (hello) => ({
+        type: 'hello',
+        protocol: hello.protocol,
+        server: { name: 'daebus', version: '2.3.0' },
+        features: ['acks', 'replay'],
+        limits: { maxSubscriptions: 64 },
+      });
+    });
+
+    it('should not send hello unless enabled', async () => {
+      const plainClient = createClient(false);
+      await plainClient.connect();
+
+      expect(sent).toEqual([]);
+      expect(plainClient.getCapabilities()).toBeNull();
+      plainClient.disconnect();
+    });
+
+    it('should announce the protocol version, client and features', async () => {
+      const handshakeClient = createClient({ clientName: 'dashboard', clientVersion: '1.2.0', features: ['gzip'] });
+      await handshakeClient.connect();
+
+      expect(sent[0]).toEqual({
+        type: 'hello',
+        protocol: 1,
+        client: { name: 'dashboard', version: '1.2.0' },
+        features: ['acks', 'streaming', 'patterns', 'replay', 'gzip'],
+      });
+      handshakeClient.disconnect();
+    });
+
+    it('should expose the capabilities the server announced', async () => {
+      const handshakeClient = createClient();
+      await handshakeClient.connect();
+
+      expect(handshakeClient.state).toBe('open');
+      expect(handshakeClient.getCapabilities()).toEqual({
+        protocol: 1,
+        server: { name: 'daebus', version: '2.3.0' },
+        features: ['acks', 'replay'],
+        limits: { maxSubscriptions: 64 },
+      });
+      handshakeClient.disconnect();
+    });
+
+    it('should not wait for subscription acks the server did not announce', async () => {
+      reply = (hello) => ({ type: 'hello', protocol: hello.protocol, features: ['replay'] });
+      ackSubscriptions = false;
+      const handshakeClient = createClient();
+      await handshakeClient.connect();
+
+      await handshakeClient.subscribeToChannel('updates', jest.fn());
+
+      expect(sent).toContainEqual(expect.objectContaining({ type: 'subscribe', channel: 'updates' }));
+      handshakeClient.disconnect();
+    });
+
+    it('should wait for subscription acks the server announced', async () => {
+      ackSubscriptions = false;
+      const handshakeClient = new DaebusWebSocketClient({
+        url: 'ws://localhost:8081',
+        timeout: 50,
+        handshake: { timeout: 1000 },
+        WebSocket: HandshakeSocket,
+      });
+      await handshakeClient.connect();
+
+      await expect(handshakeClient.subscribeToChannel('updates', jest.fn())).rejects.toThrow(
+        DaebusTimeoutError
+      );
+      handshakeClient.disconnect();
+    });
+
+    it('should not count as open until the server replies', async () => {
+      reply = null;
+      const handshakeClient = createClient();
+      const connecting = handshakeClient.connect();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(handshakeClient.state).toBe('connecting');
+      expect(handshakeClient.isConnected()).toBe(false);
+
+      handshakeClient.disconnect();
+      await expect(connecting).rejects.toThrow(DaebusConnectionError);
+    });
+
+    it('should fail without reconnecting on a protocol version mismatch', async () => {
+      reply = () => ({ type: 'hello', protocol: 2 });
+      const handshakeClient = createClient();
+      const reconnectSpy = jest.spyOn(handshakeClient as any, 'scheduleReconnect');
+
+      const error = await handshakeClient.connect().catch((err) => err);
+
+      expect(error).toBeInstanceOf(DaebusProtocolError);
+      expect(error.serverProtocol).toBe(2);
+      expect(handshakeClient.state).toBe('failed');
+      expect(handshakeClient.isConnected()).toBe(false);
+      expect(reconnectSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the server rejects the handshake', async () => {
+      reply = () => ({ type: 'hello_error', error: 'unsupported client' });
+      const handshakeClient = createClient();
+
+      await expect(handshakeClient.connect()).rejects.toThrow(
+        'Server rejected the handshake: unsupported client'
+      );
+      expect(handshakeClient.state).toBe('failed');
+    });
+
+    it('should close and reconnect when the server never replies', async () => {
+      reply = null;
+      const handshakeClient = createClient({ timeout: 20 });
+      const reconnectSpy = jest.spyOn(handshakeClient as any, 'scheduleReconnect');
+
+      await expect(handshakeClient.connect()).rejects.toThrow(DaebusTimeoutError);
+
+      expect(reconnectSpy).toHaveBeenCalledWith(4002);
+      handshakeClient.disconnect();
+    });
+  });
+
+  describe('authentication', () => {
+    let sockets: AuthSocket[];
+
+    class AuthSocket extends MockWebSocket {
+      public protocols: string[];
+      public sent: any[] = [];
+
+      constructor(url: string, protocols?: string[]) {
+        super(url, protocols);
+        this.protocols = protocols ?? [];
+        sockets.push(this);
+      }
+
+      send(data: string) {
+        this.sent.push(JSON.parse(data));
+        super.send(data);
+      }
+    }
+
+    const createClient = (options: Partial<WebSocketClientOptions> = {}) =>
+      new DaebusWebSocketClient({
+        url: 'ws://localhost:8081/events',
+        timeout: 1000,
+        reconnect: { baseDelay: 10, jitter: false },
+        WebSocket: AuthSocket,
+        ...options,
+      });
+
+    beforeEach(() => {
+      sockets = [];
+    });
+
+    it('should pass the token as a query parameter by default', async () => {
+      const authClient = createClient({ url: 'ws://localhost:8081/events?v=1', auth: () => 'a b' });
+      await authClient.connect();
+
+      expect(sockets[0].url).toBe('ws://localhost:8081/events?v=1&token=a+b');
+      authClient.disconnect();
+    });
+
+    it('should fetch a fresh token for every reconnect', async () => {
+      let count = 0;
+      const authClient = createClient({
+        auth: { token: async () => `token-${++count}`, queryParam: 'access_token' },
+      });
+      await authClient.connect();
+
+      sockets[0].readyState = MockWebSocket.CLOSED;
+      sockets[0].dispatch('close', { code: 1006, reason: 'Connection lost' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(sockets.map(socket => socket.url)).toEqual([
+        'ws://localhost:8081/events?access_token=token-1',
+        'ws://localhost:8081/events?access_token=token-2',
+      ]);
+      expect(authClient.state).toBe('open');
+      authClient.disconnect();
+    });
+
+    it('should offer the token as a subprotocol', async () => {
+      const authClient = createClient({
+        protocols: ['daebus.v1'],
+        auth: { token: () => 'secret', transport: 'protocol' },
+      });
+      await authClient.connect();
+
+      expect(sockets[0].url).toBe('ws://localhost:8081/events');
+      expect(sockets[0].protocols).toEqual(['daebus.v1', 'bearer.secret']);
+      authClient.disconnect();
+    });
+
+    it('should send the token before any other frame', async () => {
+      const authClient = createClient({
+        handshake: true,
+        auth: { token: () => 'secret', transport: 'message' },
+      });
+      await authClient.connect();
+
+      expect(sockets[0].sent.map(frame => frame.type)).toEqual(['auth', 'hello']);
+      expect(sockets[0].sent[0]).toEqual({ type: 'auth', token: 'secret' });
+      authClient.disconnect();
+    });
+
+    it('should refresh the token on auth_expired without reconnecting', async () => {
+      let count = 0;
+      const authClient = createClient({ auth: async () => `token-${++count}` });
+      await authClient.connect();
+      const handler = jest.fn();
+      await authClient.subscribeToChannel('updates', handler);
+
+      sockets[0].dispatch('message', { data: JSON.stringify({ type: 'auth_expired' }) });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(sockets).toHaveLength(1);
+      expect(sockets[0].sent).toContainEqual({ type: 'auth', token: 'token-2' });
+
+      sockets[0].dispatch('message', {
+        data: JSON.stringify({ type: 'channel_message', channel: 'updates', data: { ok: true } }),
+      });
+      expect(handler).toHaveBeenCalledWith({ ok: true }, 'updates');
+      authClient.disconnect();
+    });
+
+    it('should emit an error when refreshing fails', async () => {
+      const token = jest.fn().mockResolvedValueOnce('token').mockRejectedValueOnce(new Error('expired'));
+      const authClient = createClient({ auth: token });
+      const errorHandler = jest.fn();
+      authClient.on('error', errorHandler);
+      await authClient.connect();
+
+      sockets[0].dispatch('message', { data: JSON.stringify({ type: 'auth_expired' }) });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'AUTH_ERROR',
+        message: 'Could not get credentials: expired',
+      }));
+      authClient.disconnect();
+    });
+
+    it('should fail to connect when the provider fails', async () => {
+      const authClient = createClient({ auth: () => Promise.reject(new Error('no session')) });
+
+      await expect(authClient.connect()).rejects.toMatchObject({ code: 'AUTH_ERROR' });
+      expect(authClient.state).toBe('failed');
+      expect(sockets).toHaveLength(0);
     });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,49 @@
+import { DaebusProtocolError } from '../../types';
+import { CLIENT_NAME, CLIENT_VERSION, PROTOCOL_VERSION, createHello, parseHello } from '../handshake';
+
+describe('createHello', () => {
+  it('should default to the package name and version', () => {
+    expect(createHello({}, ['acks'])).toEqual({
+      type: 'hello',
+      protocol: PROTOCOL_VERSION,
+      client: { name: CLIENT_NAME, version: CLIENT_VERSION },
+      features: ['acks'],
+    });
+  });
+
+  it('should add extra features once', () => {
+    expect(createHello({ features: ['acks', 'gzip'] }, ['acks']).features).toEqual(['acks', 'gzip']);
+  });
+});
+
+describe('parseHello', () => {
+  it('should default missing features and limits', () => {
+    expect(parseHello({ type: 'hello', protocol: PROTOCOL_VERSION })).toEqual({
+      protocol: PROTOCOL_VERSION,
+      server: undefined,
+      features: [],
+      limits: {},
+    });
+  });
+
+  it('should reject another protocol version', () => {
+    expect(() => parseHello({ type: 'hello', protocol: PROTOCOL_VERSION + 1 })).toThrow(DaebusProtocolError);
+  });
+
+  it('should ignore malformed features and limits', () => {
+    expect(parseHello({ type: 'hello', protocol: PROTOCOL_VERSION, features: ['acks', 7], limits: [] })).toMatchObject({
+      features: ['acks'],
+      limits: {},
+    });
+  });
+
+  it('should reject a reply that is not an object', () => {
+    expect(() => parseHello('hello')).toThrow(DaebusProtocolError);
+  });
+
+  it('should reject a hello_error with the server reason', () => {
+    expect(() => parseHello({ type: 'hello_error', message: 'too old' })).toThrow(
+      'Server rejected the handshake: too old'
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { WebSocketConnectionManager } from '../manager';
+
+describe('WebSocketConnectionManager', () => {
+  let manager: WebSocketConnectionManager;
+
+  beforeEach(() => {
+    manager = new WebSocketConnectionManager();
+  });
+
+  it('should share one client per URL', () => {
+    const first = manager.acquire({ url: 'ws://localhost:8081' });
+    const second = manager.acquire({ url: 'ws://localhost:8081' });
+    const other = manager.acquire({ url: 'ws://localhost:9091' });
+
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+    expect(manager.getRefCount('ws://localhost:8081')).toBe(2);
+  });
+
+  it('should disconnect the client after the last release', () => {
+    const client = manager.acquire({ url: 'ws://localhost:8081' });
+    manager.acquire({ url: 'ws://localhost:8081' });
+    const disconnectSpy = jest.spyOn(client, 'disconnect');
+
+    manager.release(client);
+    expect(disconnectSpy).not.toHaveBeenCalled();
+
+    manager.release(client);
+    expect(disconnectSpy).toHaveBeenCalledTimes(1);
+    expect(manager.getRefCount('ws://localhost:8081')).toBe(0);
+  });
+
+  it('should create a new client once the previous one was released', () => {
+    const client = manager.acquire({ url: 'ws://localhost:8081' });
+    manager.release(client);
+
+    expect(manager.acquire({ url: 'ws://localhost:8081' })).not.toBe(client);
+  });
+
+  it('should ignore clients it does not manage', () => {
+    const client = manager.acquire({ url: 'ws://localhost:8081' });
+
+    manager.release(new WebSocketConnectionManager().acquire({ url: 'ws://localhost:8081' }));
+
+    expect(manager.getRefCount('ws://localhost:8081')).toBe(1);
+    expect(client.state).toBe('idle');
+  });
+});
@@ -0,0 +1,85 @@
+import { OutboundQueue } from '../queue';
+import { DaebusConnectionError, DaebusTimeoutError } from '../../types';
+
+describe('OutboundQueue', () => {
+  let onDrop: jest.Mock;
+
+  beforeEach(() => {
+    onDrop = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should flush messages in the order they were queued', () => {
+    const queue = new OutboundQueue({}, onDrop);
+    const send = jest.fn();
+
+    queue.enqueue('first');
+    queue.enqueue('second', 'req_1');
+    queue.flush(send);
+
+    expect(send.mock.calls).toEqual([['first'], ['second']]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should throw when the queue is full', () => {
+    const queue = new OutboundQueue({ maxSize: 1 }, onDrop);
+    queue.enqueue('first');
+
+    expect(() => queue.enqueue('second')).toThrow(DaebusConnectionError);
+    expect(queue.size).toBe(1);
+  });
+
+  it('should drop expired messages instead of sending them', () => {
+    jest.useFakeTimers();
+    const queue = new OutboundQueue({ ttl: 1000 }, onDrop);
+    const send = jest.fn();
+
+    queue.enqueue('stale', 'req_1');
+    jest.advanceTimersByTime(500);
+    queue.enqueue('fresh');
+    jest.advanceTimersByTime(600);
+    queue.flush(send);
+
+    expect(send.mock.calls).toEqual([['fresh']]);
+    expect(onDrop).toHaveBeenCalledWith(
+      expect.objectContaining({ data: 'stale', requestId: 'req_1' }),
+      expect.any(DaebusTimeoutError)
+    );
+  });
+
+  it('should make room by pruning expired messages', () => {
+    jest.useFakeTimers();
+    const queue = new OutboundQueue({ maxSize: 1, ttl: 1000 }, onDrop);
+
+    queue.enqueue('stale');
+    jest.advanceTimersByTime(1000);
+
+    expect(() => queue.enqueue('fresh')).not.toThrow();
+    expect(queue.size).toBe(1);
+  });
+
+  it('should remove queued actions by request ID', () => {
+    const queue = new OutboundQueue({}, onDrop);
+    queue.enqueue('action', 'req_1');
+
+    expect(queue.remove('req_1')).toBe(true);
+    expect(queue.remove('req_1')).toBe(false);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should drop every message on clear', () => {
+    const queue = new OutboundQueue({}, onDrop);
+    const error = new DaebusConnectionError('Connection closed');
+    queue.enqueue('first');
+    queue.enqueue('second', 'req_2');
+
+    queue.clear(error);
+
+    expect(queue.size).toBe(0);
+    expect(onDrop).toHaveBeenCalledTimes(2);
+    expect(onDrop).toHaveBeenLastCalledWith(expect.objectContaining({ requestId: 'req_2' }), error);
+  });
+});
@@ -0,0 +1,69 @@
+import { ProgressBuffer } from '../stream';
+
+const collect = async <P>(buffer: ProgressBuffer<P>): Promise<P[]> => {
+  const values: P[] = [];
+  for await (const value of buffer) {
+    values.push(value);
+  }
+  return values;
+};
+
+describe('ProgressBuffer', () => {
+  it('should yield values pushed before iteration starts', async () => {
+    const buffer = new ProgressBuffer<number>();
+    buffer.push(1);
+    buffer.push(2);
+    buffer.end();
+
+    await expect(collect(buffer)).resolves.toEqual([1, 2]);
+  });
+
+  it('should resolve waiting consumers as values arrive', async () => {
+    const buffer = new ProgressBuffer<number>();
+    const values = collect(buffer);
+
+    buffer.push(1);
+    await Promise.resolve();
+    buffer.push(2);
+    buffer.end();
+
+    await expect(values).resolves.toEqual([1, 2]);
+  });
+
+  it('should throw after buffered values when failed', async () => {
+    const buffer = new ProgressBuffer<number>();
+    const received: number[] = [];
+    buffer.push(1);
+    buffer.fail(new Error('boom'));
+
+    await expect((async () => {
+      for await (const value of buffer) {
+        received.push(value);
+      }
+    })()).rejects.toThrow('boom');
+    expect(received).toEqual([1]);
+  });
+
+  it('should reject a waiting consumer when failed', async () => {
+    const buffer = new ProgressBuffer<number>();
+    const values = collect(buffer);
+
+    buffer.fail(new Error('boom'));
+
+    await expect(values).rejects.toThrow('boom');
+  });
+
+  it('should ignore values after the consumer leaves the loop', async () => {
+    const buffer = new ProgressBuffer<number>();
+    buffer.push(1);
+    buffer.push(2);
+
+    for await (const value of buffer) {
+      expect(value).toBe(1);
+      break;
+    }
+    buffer.push(3);
+
+    await expect(collect(buffer)).resolves.toEqual([]);
+  });
+});
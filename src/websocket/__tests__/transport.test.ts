@@ -0,0 +1,57 @@
+import { decodeMessageData, resolveWebSocket, toError, WebSocketConstructor } from '../transport';
+
+describe('WebSocket transport helpers', () => {
+  describe('resolveWebSocket', () => {
+    const globalScope = globalThis as { WebSocket?: unknown };
+    const originalWebSocket = globalScope.WebSocket;
+
+    afterEach(() => {
+      globalScope.WebSocket = originalWebSocket;
+    });
+
+    it('should prefer the provided implementation', async () => {
+      const Custom = jest.fn() as unknown as WebSocketConstructor;
+      globalScope.WebSocket = jest.fn();
+
+      await expect(resolveWebSocket(Custom)).resolves.toBe(Custom);
+    });
+
+    it('should fall back to the native WebSocket', async () => {
+      const Native = jest.fn();
+      globalScope.WebSocket = Native;
+
+      await expect(resolveWebSocket()).resolves.toBe(Native);
+    });
+  });
+
+  describe('decodeMessageData', () => {
+    it('should pass strings through', () => {
+      expect(decodeMessageData('{"a":1}')).toBe('{"a":1}');
+    });
+
+    it('should decode Buffers, typed arrays and ArrayBuffers', () => {
+      const bytes = new TextEncoder().encode('hello');
+
+      expect(decodeMessageData(Buffer.from('hello'))).toBe('hello');
+      expect(decodeMessageData(bytes)).toBe('hello');
+      expect(decodeMessageData(bytes.buffer)).toBe('hello');
+    });
+  });
+
+  describe('toError', () => {
+    it('should return Error instances unchanged', () => {
+      const error = new Error('boom');
+      expect(toError(error)).toBe(error);
+    });
+
+    it('should unwrap the error carried by an error event', () => {
+      const error = new Error('ECONNREFUSED');
+      expect(toError({ error, message: 'ignored' })).toBe(error);
+    });
+
+    it('should fall back to the event message or a generic message', () => {
+      expect(toError({ message: 'socket hang up' }).message).toBe('socket hang up');
+      expect(toError({ type: 'error' }).message).toBe('WebSocket error');
+    });
+  });
+});
@@ -1,95 +1,398 @@
-import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { z } from 'zod';
 import {
   DaebusMessage,
+  DaebusMessageSchema,
+  DaebusResponse,
   DaebusError,
+  DaebusAbortError,
   DaebusTimeoutError,
   DaebusConnectionError,
+  DaebusValidationError,
+  DaebusSubscriptionError,
+  DaebusProtocolError,
   ServiceSchema,
   ServiceActions,
   ServiceChannels,
   ActionInput,
   ActionOutput,
+  ActionProgress,
   ChannelData,
+  ChannelHandler,
+  ConnectionState,
+  ConnectionStateChange,
 } from '@/types';
+import { validateOrThrow } from '@/utils/schema';
+import { isChannelPattern, matchChannel, findChannel } from '@/utils/channels';
+import { RequestIdGenerator, randomRequestId } from '@/utils/id';
+import {
+  ReconnectPolicy,
+  ResolvedReconnectPolicy,
+  computeBackoff,
+  resolveReconnectPolicy,
+} from '@/utils/retry';
+import {
+  WebSocketLike,
+  WebSocketConstructor,
+  WS_OPEN,
+  WS_CLOSED,
+  resolveWebSocket,
+  decodeMessageData,
+  toError,
+} from './transport';
+import { OutboundQueue, OutboundQueueOptions, QueuedMessage } from './queue';
+import { ActionStream, ProgressBuffer } from './stream';
+import { HandshakeOptions, ServerCapabilities, createHello, parseHello } from './handshake';
+import { AuthOptions, AuthProvider, ResolvedAuth, authenticateRequest, fetchToken, resolveAuth } from '@/utils/auth';
+import { isRecord, nonEmptyString } from '@/utils/guards';
 
-export interface WebSocketClientOptions {
+export interface WebSocketClientOptions<T extends ServiceSchema = ServiceSchema> {
   url: string;
+  /** Base reconnect delay; shorthand for `reconnect.baseDelay` */
   reconnectInterval?: number;
+  /** Shorthand for `reconnect.maxAttempts` */
   maxReconnectAttempts?: number;
+  reconnect?: ReconnectPolicy;
   timeout?: number;
   protocols?: string[];
+  schema?: T;
+  validate?: boolean;
+  /** WebSocket implementation; defaults to the native WebSocket, then `ws` */
+  WebSocket?: WebSocketConstructor;
+  /** Send periodic pings and reconnect when pongs stop arriving; off by default */
+  heartbeat?: HeartbeatOptions;
+  /** Buffer messages sent while connecting or reconnecting; off by default */
+  queue?: OutboundQueueOptions;
+  /** Handling of actions awaiting a reply when the socket closes unexpectedly ('reject') */
+  inFlightPolicy?: InFlightPolicy;
+  /** Wait for the server's `subscribed` ack before resolving a subscription (true) */
+  subscriptionAcks?: boolean;
+  /** Generates request and subscription IDs; random UUIDv4 by default */
+  generateRequestId?: RequestIdGenerator;
+  /** Exchange `hello` frames before the connection counts as open; off by default */
+  handshake?: boolean | HandshakeOptions;
+  /** Credentials fetched on every connect and when the server sends `auth_expired` */
+  auth?: AuthProvider | AuthOptions;
+}
+
+export interface HeartbeatOptions {
+  /** Time between a pong and the next ping (30000ms) */
+  interval?: number;
+  /** How long to wait for a pong before treating the connection as dead (10000ms) */
+  timeout?: number;
+}
+
+/**
+ * What happens to actions awaiting a reply when the socket closes unexpectedly:
+ * 'reject' fails them at once, 'resend' sends idempotent actions again after
+ * reconnecting and rejects the rest
+ */
+export type InFlightPolicy = 'reject' | 'resend';
+
+export interface ActionRequestOptions<P = unknown> {
+  /** ID for this request, e.g. to correlate it with a trace; generated when omitted */
+  requestId?: string;
+  timeout?: number;
+  signal?: AbortSignal;
+  /** Called when the socket closes while the action waits for a reply and it will be resent */
+  onInterrupt?: (error: DaebusConnectionError) => void;
+  /** Called with each `progress` update the action sends before its response */
+  onProgress?: (progress: P) => void;
 }
 
 export interface PendingRequest {
   resolve: (value: any) => void;
   reject: (error: Error) => void;
   timeout: NodeJS.Timeout;
+  /** Sends the request again; only set when it may be resent after a reconnect */
+  resend?: () => void;
+  onInterrupt?: (error: DaebusConnectionError) => void;
+  /** Interrupted by a close and waiting for the next open to be resent */
+  awaitingResend?: boolean;
+  onProgress?: (progress: unknown) => void;
+}
+
+interface PendingSubscription {
+  channel: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// A subscribed channel: its live subscriptions and the server ack they wait for
+interface ChannelEntry {
+  count: number;
+  ready: Promise<void>;
+  // Messages may have been missed since the connection dropped
+  stale: boolean;
+  // Service of each handler; their schemas validate the channel's messages
+  services: string[];
+}
+
+/**
+ * Handle for a single channel handler; the channel itself stays subscribed
+ * until its last handle is released
+ */
+export interface Subscription {
+  readonly channel: string;
+  readonly active: boolean;
+  unsubscribe(): void;
+}
+
+export interface ActionHandlerContext {
+  action: string;
+  requestId?: string;
+  /** Epoch milliseconds after which the caller no longer waits for a reply */
+  deadline?: number;
+  message: DaebusMessage;
+}
+
+export type ActionHandler<I, O> = (input: I, context: ActionHandlerContext) => O | Promise<O>;
+
+/**
+ * Handle for an action served by this client
+ */
+export interface ActionRegistration {
+  readonly action: string;
+  readonly active: boolean;
+  unregister(): void;
 }
 
 export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private ws: WebSocketLike | null = null;
   private reconnectAttempts = 0;
-  private isConnecting = false;
-  private isReconnecting = false;
+  private connectionState: ConnectionState = 'idle';
+  private connectAttempt: Promise<void> | null = null;
   private pendingRequests = new Map<string, PendingRequest>();
-  private requestCounter = 0;
-  private subscribedChannels = new Set<string>();
+  private subscribedChannels = new Map<string, ChannelEntry>();
+  // Subscribe frames awaiting an ack, by frame ID
+  private pendingSubscriptions = new Map<string, PendingSubscription>();
+  // Schemas of the services sharing this connection, by service name
+  private serviceSchemas = new Map<string, ServiceSchema>();
+  // Server `hello` awaited after the socket opened, before the state becomes 'open'
+  private pendingHandshake: {
+    resolve: (capabilities: ServerCapabilities) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private capabilities: ServerCapabilities | null = null;
+  // Sequence number of the last message seen on each concrete channel
+  private channelOffsets = new Map<string, number>();
+  // Channels awaiting their first message since the connection dropped
+  private resumedChannels = new Set<string>();
+  // Actions this client serves, by service name and action name
+  private registeredActions = new Map<string, Map<string, ActionRegistration>>();
+  private reconnectPolicy: ResolvedReconnectPolicy;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set by connect() and cleared by disconnect(); resume events only reconnect while set
+  private shouldReconnect = false;
+  private removeResumeListeners: (() => void) | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingSentAt: number | null = null;
+  private heartbeat: { ws: WebSocketLike; onTimeout: () => void } | null = null;
+  private latency: number | null = null;
+  private queue: OutboundQueue | null = null;
+  private auth: ResolvedAuth | null = null;
 
-  constructor(private options: WebSocketClientOptions) {
+  constructor(private options: WebSocketClientOptions<T>) {
     super();
     this.setMaxListeners(0); // Remove listener limit
+    this.reconnectPolicy = resolveReconnectPolicy(
+      { maxAttempts: options.maxReconnectAttempts, baseDelay: options.reconnectInterval },
+      options.reconnect
+    );
+    if (options.queue) {
+      this.queue = new OutboundQueue(options.queue, (message, error) =>
+        this.rejectQueued(message, error)
+      );
+    }
+    if (options.auth) {
+      this.auth = resolveAuth(options.auth);
+    }
   }
 
   /**
-   * Connect to the WebSocket server
+   * Current connection state
+   */
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Connect to the WebSocket server. Concurrent calls share one attempt.
    */
   async connect(): Promise<void> {
-    if (this.isConnecting || this.ws?.readyState === WebSocket.OPEN) {
+    if (this.isConnected()) {
       return;
     }
 
-    this.isConnecting = true;
+    if (!this.connectAttempt) {
+      this.connectAttempt = this.openSocket().finally(() => {
+        this.connectAttempt = null;
+      });
+    }
+    return this.connectAttempt;
+  }
+
+  private async openSocket(): Promise<void> {
+    this.shouldReconnect = true;
+    this.listenForResume();
+    if (this.connectionState !== 'reconnecting') {
+      this.setState('connecting');
+    }
+
+    let WebSocketImpl: WebSocketConstructor;
+    try {
+      WebSocketImpl = await resolveWebSocket(this.options.WebSocket);
+    } catch (error) {
+      const connectionError = new DaebusConnectionError(
+        `No WebSocket implementation available: ${(error as Error).message}`
+      );
+      this.fail(connectionError);
+      throw connectionError;
+    }
+    // disconnect() may have been called while the implementation loaded
+    if (!this.shouldReconnect) {
+      throw new DaebusConnectionError('Connection closed');
+    }
+
+    // A fresh token for every attempt, so reconnects don't reuse an expired one
+    let { url, protocols } = this.options;
+    let token: string | undefined;
+    if (this.auth) {
+      try {
+        token = await fetchToken(this.auth.token);
+      } catch (error) {
+        // A reconnect attempt is rescheduled by whoever started it
+        if (this.connectionState !== 'reconnecting') {
+          this.fail(error as Error);
+        }
+        throw error;
+      }
+      if (!this.shouldReconnect) {
+        throw new DaebusConnectionError('Connection closed');
+      }
+      ({ url, protocols } = authenticateRequest(this.auth, token, url, protocols));
+    }
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.options.url, this.options.protocols);
+        const ws = new WebSocketImpl(url, protocols);
+        this.ws = ws;
+        // Binary frames must arrive in a form decodeMessageData can read synchronously
+        if (ws.binaryType !== undefined) {
+          ws.binaryType = 'arraybuffer';
+        }
 
-        this.ws.on('open', () => {
-          this.isConnecting = false;
-          this.reconnectAttempts = 0;
-          this.emit('connect');
-          
-          // Resubscribe to channels after reconnection
-          if (this.isReconnecting) {
+        const onReady = () => {
+          // Resubscribe to channels kept from an earlier connection, whether
+          // it dropped or was closed, then send queued messages before
+          // anything listening for 'open' can jump the queue
+          if (this.subscribedChannels.size > 0) {
             this.resubscribeToChannels();
-            this.isReconnecting = false;
           }
+          if (this.connectionState === 'reconnecting') {
+            this.resendInterrupted();
+          }
+          this.queue?.flush((data) => ws.send(data));
+
+          this.setState('open');
+          this.reconnectAttempts = 0;
+          this.emit('connect');
+          this.startHeartbeat(ws, () => {
+            ws.close(4000, 'Heartbeat timeout');
+            handleClose(4000, 'Heartbeat timeout');
+          });
           
           resolve();
+        };
+
+        ws.addEventListener('open', () => {
+          if (this.auth?.transport === 'message') {
+            ws.send(JSON.stringify({ type: 'auth', token }));
+          }
+          if (!this.options.handshake) {
+            onReady();
+            return;
+          }
+
+          this.handshake(ws).then((capabilities) => {
+            this.capabilities = capabilities;
+            onReady();
+          }, (error) => {
+            // Closed during the handshake; handleClose already rejected
+            if (error instanceof DaebusConnectionError) {
+              return;
+            }
+            reject(error);
+
+            // Retrying can't fix an incompatible server
+            const incompatible = error instanceof DaebusProtocolError;
+            if (incompatible) {
+              this.shouldReconnect = false;
+            }
+            const [code, reason] = incompatible
+              ? [4003, 'Incompatible protocol']
+              : [4002, 'Handshake timeout'];
+            ws.close(code, reason);
+            handleClose(code, reason);
+            if (incompatible) {
+              this.fail(error, code);
+            }
+          });
         });
 
-        this.ws.on('message', (data: WebSocket.Data) => {
-          this.handleMessage(data);
+        ws.addEventListener('message', (event: { data: unknown }) => {
+          this.handleMessage(event.data);
         });
 
-        this.ws.on('close', (code: number, reason: Buffer) => {
-          this.isConnecting = false;
-          this.emit('disconnect', code, reason.toString());
-          
-          if (code !== 1000 && !this.isReconnecting) { // Not a normal closure
-            this.scheduleReconnect();
+        let closed = false;
+        const handleClose = (code: number, reason: string) => {
+          // Ignore sockets already failed by the heartbeat or replaced by a newer one
+          if (closed || (this.ws && this.ws !== ws)) {
+            return;
+          }
+          closed = true;
+          this.stopHeartbeat();
+          this.markChannelsStale();
+          this.pendingHandshake?.reject(new DaebusConnectionError(`Connection closed with code ${code}`, code));
+          this.rejectPendingSubscriptions(
+            new DaebusConnectionError(`Connection closed with code ${code}`, code)
+          );
+          this.emit('disconnect', code, reason);
+          // No-op once open; otherwise the attempt failed
+          reject(new DaebusConnectionError(`WebSocket closed before opening (code ${code})`));
+
+          const willReconnect = code !== 1000 && this.shouldReconnect;
+          if (this.connectionState === 'open') {
+            this.interruptPendingRequests(code, reason, willReconnect);
           }
+
+          if (this.connectionState === 'closing') {
+            this.setState('closed', code);
+          } else if (this.connectionState === 'reconnecting') {
+            // The failed attempt is rescheduled by whoever started it
+          } else if (willReconnect) { // Not a normal closure
+            this.scheduleReconnect(code);
+          } else {
+            this.setState('closed', code);
+          }
+        };
+
+        ws.addEventListener('close', (event: { code: number; reason: string }) => {
+          handleClose(event.code, event.reason);
         });
 
-        this.ws.on('error', (error: Error) => {
-          this.isConnecting = false;
+        ws.addEventListener('error', (event: unknown) => {
+          if (this.ws && this.ws !== ws) {
+            return;
+          }
+          const error = toError(event);
           this.emit('error', error);
           reject(new DaebusConnectionError(`WebSocket connection failed: ${error.message}`));
         });
 
       } catch (error) {
-        this.isConnecting = false;
+        this.fail(error as Error);
         reject(error);
       }
     });
@@ -99,12 +402,25 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
    * Disconnect from the WebSocket server
    */
   disconnect(): void {
-    if (this.ws) {
+    this.shouldReconnect = false;
+    this.clearReconnectTimer();
+    this.removeResumeListeners?.();
+    this.removeResumeListeners = null;
+    this.stopHeartbeat();
+    this.latency = null;
+
+    if (this.ws && this.ws.readyState !== WS_CLOSED) {
+      // Moves on to 'closed' when the close event arrives
+      this.setState('closing');
       this.ws.close(1000, 'Client disconnect');
-      this.ws = null;
+    } else if (this.connectionState !== 'idle') {
+      this.setState('closed');
     }
+    this.ws = null;
     
-    // Clear all pending requests
+    // Clear queued messages and all pending requests
+    this.queue?.clear(new DaebusConnectionError('Connection closed'));
+    this.rejectPendingSubscriptions(new DaebusConnectionError('Connection closed'));
     for (const [_id, request] of this.pendingRequests) {
       clearTimeout(request.timeout);
       request.reject(new DaebusConnectionError('Connection closed'));
@@ -119,108 +435,657 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
     serviceName: string,
     action: A,
     payload: ActionInput<T, A>,
-    timeout: number = this.options.timeout ?? 30000
+    options: number | ActionRequestOptions<ActionProgress<T, A>> = {}
   ): Promise<ActionOutput<T, A>> {
-    if (!this.isConnected()) {
+    const {
+      requestId = this.generateRequestId(),
+      timeout = this.options.timeout ?? 30000,
+      signal,
+      onInterrupt,
+      onProgress,
+    } = typeof options === 'number' ? { timeout: options } : options;
+
+    if (signal?.aborted) {
+      throw new DaebusAbortError(`Action ${String(action)} was aborted`);
+    }
+    if (!this.canSend()) {
       throw new DaebusConnectionError('WebSocket is not connected');
     }
 
-    const requestId = this.generateRequestId();
+    const actionSchema = (this.serviceSchemas.get(serviceName) ?? this.options.schema)
+      ?.actions[String(action)];
+    const definition = this.options.validate ? actionSchema : undefined;
+    const resendable = this.options.inFlightPolicy === 'resend' && actionSchema?.idempotent === true;
+    const context = `action ${String(action)}`;
+    if (definition) {
+      payload = validateOrThrow('request', context, () => definition.input.parse(payload));
+    }
+
+    if (this.pendingRequests.has(requestId)) {
+      throw new DaebusError(`Request ID ${requestId} is already in use`);
+    }
     const replyChannel = `reply_${requestId}`;
 
+    const timestamp = Date.now();
     const message: DaebusMessage = {
       action: String(action),
       payload: payload as Record<string, unknown>,
       reply_channel: replyChannel,
       request_id: requestId,
-      timestamp: Date.now(),
+      timestamp,
+      deadline: timestamp + timeout,
     };
 
     return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
       const timeoutHandle = setTimeout(() => {
         this.pendingRequests.delete(requestId);
-        reject(new DaebusTimeoutError(`Action ${String(action)} timed out`));
+        this.queue?.remove(requestId);
+        settle();
+        reject(new DaebusTimeoutError(`Action ${String(action)} timed out`, 'deadline', 1));
       }, timeout);
 
+      // Stop waiting and tell the service the result is no longer wanted
+      const onAbort = () => {
+        this.pendingRequests.delete(requestId);
+        settle();
+        if (!this.queue?.remove(requestId)) {
+          this.sendCancel(serviceName, requestId);
+        }
+        reject(new DaebusAbortError(`Action ${String(action)} was aborted`));
+      };
+      signal?.addEventListener('abort', onAbort);
+
       this.pendingRequests.set(requestId, {
         resolve: (data) => {
-          clearTimeout(timeoutHandle);
-          resolve(data);
+          settle();
+          if (!definition) {
+            resolve(data);
+            return;
+          }
+          try {
+            resolve(validateOrThrow('response', context, () => definition.output.parse(data)));
+          } catch (error) {
+            reject(error);
+          }
         },
         reject: (error) => {
-          clearTimeout(timeoutHandle);
+          settle();
           reject(error);
         },
         timeout: timeoutHandle,
+        resend: resendable ? () => this.sendToChannel(serviceName, message) : undefined,
+        onInterrupt,
+        onProgress: onProgress && ((update) => {
+          if (!definition?.progress) {
+            onProgress(update as ActionProgress<T, A>);
+            return;
+          }
+
+          // Drop updates that don't match the progress schema
+          const result = definition.progress.safeParse(update);
+          if (result.success) {
+            onProgress(result.data);
+          } else {
+            this.emit(
+              'invalid_message',
+              replyChannel,
+              update,
+              new DaebusValidationError(
+                `Invalid progress for ${context}`,
+                'response',
+                result.error.issues
+              )
+            );
+          }
+        }),
       });
 
       // Send to service's main channel
-      this.sendToChannel(serviceName, message);
+      try {
+        this.sendToChannel(serviceName, message);
+      } catch (error) {
+        this.pendingRequests.delete(requestId);
+        settle();
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Send an action that reports progress before its result. Iterate the
+   * returned stream for the updates and await `result` for the response.
+   */
+  streamAction<A extends ServiceActions<T>>(
+    serviceName: string,
+    action: A,
+    payload: ActionInput<T, A>,
+    options: number | ActionRequestOptions<ActionProgress<T, A>> = {}
+  ): ActionStream<ActionProgress<T, A>, ActionOutput<T, A>> {
+    const requestOptions = typeof options === 'number' ? { timeout: options } : options;
+    const requestId = requestOptions.requestId ?? this.generateRequestId();
+    const progress = new ProgressBuffer<ActionProgress<T, A>>();
+
+    const result = this.sendAction(serviceName, action, payload, {
+      ...requestOptions,
+      requestId,
+      onProgress: (update) => {
+        requestOptions.onProgress?.(update);
+        progress.push(update);
+      },
     });
+    result.then(() => progress.end(), (error) => progress.fail(error));
+
+    return {
+      requestId,
+      result,
+      [Symbol.asyncIterator]: () => progress[Symbol.asyncIterator](),
+    };
   }
 
   /**
-   * Subscribe to a broadcast channel
+   * Tell a service to stop working on a request
+   */
+  private sendCancel(serviceName: string, requestId: string): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    const cancelMessage = {
+      type: 'cancel',
+      channel: serviceName,
+      request_id: requestId,
+    };
+
+    this.ws!.send(JSON.stringify(cancelMessage));
+  }
+
+  /**
+   * Subscribe to a broadcast channel or channel pattern. The server is only
+   * asked to subscribe for the first handler, and to unsubscribe once the
+   * last one leaves. Resolves once the server acknowledges the subscription.
+   * With `serviceName`, messages are validated against that service's
+   * registered schema.
    */
   async subscribeToChannel<C extends ServiceChannels<T>>(
     channel: C,
-    handler: (data: ChannelData<T, C>) => void
-  ): Promise<void> {
+    handler: ChannelHandler<T, C>,
+    serviceName?: string
+  ): Promise<Subscription> {
     if (!this.isConnected()) {
       throw new DaebusConnectionError('WebSocket is not connected');
     }
 
     const channelName = String(channel);
-    this.subscribedChannels.add(channelName);
+    const event = `channel:${channelName}`;
+    let entry = this.subscribedChannels.get(channelName);
+    if (!entry) {
+      entry = { count: 0, ready: this.requestSubscribe(channelName), stale: false, services: [] };
+      this.subscribedChannels.set(channelName, entry);
+    }
+    const current = entry;
+    current.count++;
+    if (serviceName) {
+      current.services.push(serviceName);
+    }
+    const releaseService = () => {
+      const index = serviceName ? current.services.indexOf(serviceName) : -1;
+      if (index >= 0) {
+        current.services.splice(index, 1);
+      }
+    };
     
     // Add event listener for this channel
-    this.on(`channel:${channelName}`, handler);
+    this.on(event, handler);
+
+    try {
+      await current.ready;
+    } catch (error) {
+      this.off(event, handler);
+      releaseService();
+      if (this.subscribedChannels.get(channelName) === current && --current.count === 0) {
+        this.subscribedChannels.delete(channelName);
+      }
+      throw error;
+    }
 
-    // Send subscription message
-    const subscribeMessage = {
-      type: 'subscribe',
+    const subscribedChannels = this.subscribedChannels;
+    let released = false;
+    return {
       channel: channelName,
+      // Inactive once released or once the channel as a whole was torn down
+      get active() {
+        return !released && subscribedChannels.get(channelName) === current;
+      },
+      unsubscribe: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        if (subscribedChannels.get(channelName) === current) {
+          this.off(event, handler);
+          releaseService();
+          this.releaseChannel(channelName);
+        }
+      },
+    };
+  }
+
+  /**
+   * Serve an action for a service: requests published to the service's
+   * channel are validated against `input`, passed to the handler, and
+   * answered with a DaebusResponse on their `reply_channel`.
+   */
+  async registerAction<I extends z.ZodSchema, O>(
+    serviceName: string,
+    action: string,
+    input: I,
+    handler: ActionHandler<z.infer<I>, O>
+  ): Promise<ActionRegistration> {
+    const actions = this.registeredActions.get(serviceName) ?? new Map<string, ActionRegistration>();
+    if (actions.get(action)?.active) {
+      throw new DaebusError(`Action ${action} is already registered for ${serviceName}`);
+    }
+    this.registeredActions.set(serviceName, actions);
+
+    let subscription: Subscription | null = null;
+    let unregistered = false;
+    const registration: ActionRegistration = {
+      action,
+      get active() {
+        return !unregistered && (subscription?.active ?? true);
+      },
+      unregister: () => {
+        unregistered = true;
+        subscription?.unsubscribe();
+        if (actions.get(action) === registration) {
+          actions.delete(action);
+        }
+      },
     };
+    // Claimed before subscribing so concurrent registrations of the action fail
+    actions.set(action, registration);
+
+    try {
+      // Service channels are not declared in the schema's channels
+      subscription = await this.subscribeToChannel(
+        serviceName as ServiceChannels<T>,
+        ((data: unknown) => {
+          void this.handleActionRequest(action, input, handler, data);
+        }) as ChannelHandler<T, ServiceChannels<T>>
+      );
+    } catch (error) {
+      registration.unregister();
+      throw error;
+    }
+
+    if (unregistered) {
+      subscription.unsubscribe();
+    }
+    return registration;
+  }
+
+  /**
+   * Run a registered action for a request and publish the reply
+   */
+  private async handleActionRequest<I extends z.ZodSchema, O>(
+    action: string,
+    input: I,
+    handler: ActionHandler<z.infer<I>, O>,
+    data: unknown
+  ): Promise<void> {
+    // Other actions of the service and anything that isn't a request are left alone
+    const parsed = DaebusMessageSchema.safeParse(data);
+    if (!parsed.success || parsed.data.action !== action) {
+      return;
+    }
 
-    this.ws!.send(JSON.stringify(subscribeMessage));
+    const message = parsed.data;
+    let response: DaebusResponse;
+    try {
+      const payload = validateOrThrow('request', `action ${action}`, () => input.parse(message.payload ?? {}));
+      const result = await handler(payload, {
+        action,
+        requestId: message.request_id,
+        deadline: message.deadline,
+        message,
+      });
+      response = { success: true, data: result, request_id: message.request_id };
+    } catch (error) {
+      response = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        request_id: message.request_id,
+      };
+    }
+
+    if (!message.reply_channel) {
+      return;
+    }
+
+    try {
+      this.send({ type: 'publish', channel: message.reply_channel, data: response });
+    } catch (error) {
+      this.emit('error', error as Error);
+    }
   }
 
   /**
-   * Unsubscribe from a broadcast channel
+   * Unsubscribe every handler from a broadcast channel
    */
   async unsubscribeFromChannel<C extends ServiceChannels<T>>(channel: C): Promise<void> {
     const channelName = String(channel);
-    this.subscribedChannels.delete(channelName);
+    const subscribed = this.subscribedChannels.delete(channelName);
+    this.pruneChannelOffsets();
     
     // Remove all listeners for this channel
     this.removeAllListeners(`channel:${channelName}`);
 
+    if (subscribed && this.isConnected()) {
+      this.send(this.channelFrame('unsubscribe', channelName));
+    }
+  }
+
+  /**
+   * Drop one subscription and unsubscribe on the server after the last one
+   */
+  private releaseChannel(channelName: string): void {
+    const entry = this.subscribedChannels.get(channelName);
+    if (!entry) {
+      return;
+    }
+
+    if (--entry.count > 0) {
+      return;
+    }
+
+    this.subscribedChannels.delete(channelName);
+    this.pruneChannelOffsets();
     if (this.isConnected()) {
-      // Send unsubscription message
-      const unsubscribeMessage = {
-        type: 'unsubscribe',
-        channel: channelName,
+      this.send(this.channelFrame('unsubscribe', channelName));
+    }
+  }
+
+  /**
+   * Send a subscribe frame and wait for the server to acknowledge it
+   */
+  private requestSubscribe(channel: string): Promise<void> {
+    const id = this.generateRequestId();
+    const frame = { ...this.channelFrame('subscribe', channel), ...this.resumeOffsets(channel), id };
+    if (!this.waitsForAcks()) {
+      this.send(frame);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = this.options.timeout ?? 30000;
+      const timeoutHandle = setTimeout(() => {
+        this.pendingSubscriptions.delete(id);
+        reject(new DaebusTimeoutError(`Subscription to ${channel} was not acknowledged`, 'deadline', 1));
+      }, timeout);
+
+      this.pendingSubscriptions.set(id, {
+        channel,
+        resolve: () => {
+          clearTimeout(timeoutHandle);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timeoutHandle);
+          reject(error);
+        },
+      });
+
+      try {
+        this.send(frame);
+      } catch (error) {
+        this.pendingSubscriptions.get(id)?.reject(error as Error);
+        this.pendingSubscriptions.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Whether subscriptions wait for a `subscribed` ack: enabled on this side
+   * and, after a handshake, announced by the server too
+   */
+  private waitsForAcks(): boolean {
+    if (this.options.subscriptionAcks === false) {
+      return false;
+    }
+    return this.capabilities?.features.includes('acks') ?? true;
+  }
+
+  /**
+   * Send `hello` and wait for the server's reply
+   */
+  private handshake(ws: WebSocketLike): Promise<ServerCapabilities> {
+    const options = this.options.handshake === true ? {} : this.options.handshake || {};
+    const features = ['streaming', 'patterns', 'replay'];
+    if (this.options.subscriptionAcks !== false) {
+      features.unshift('acks');
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = options.timeout ?? this.options.timeout ?? 30000;
+      const timeoutHandle = setTimeout(() => {
+        this.pendingHandshake = null;
+        reject(new DaebusTimeoutError('Handshake timed out', 'deadline', 1));
+      }, timeout);
+
+      const settle = () => {
+        clearTimeout(timeoutHandle);
+        this.pendingHandshake = null;
+      };
+      this.pendingHandshake = {
+        resolve: (capabilities) => {
+          settle();
+          resolve(capabilities);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
       };
 
-      this.ws!.send(JSON.stringify(unsubscribeMessage));
+      ws.send(JSON.stringify(createHello(options, features)));
+    });
+  }
+
+  /**
+   * Settle the handshake from a `hello` or `hello_error` frame
+   */
+  private handleHello(message: unknown): void {
+    const pending = this.pendingHandshake;
+    if (!pending) {
+      return;
+    }
+
+    try {
+      pending.resolve(parseHello(message));
+    } catch (error) {
+      pending.reject(error as Error);
     }
   }
 
   /**
-   * Send a message to a specific channel
+   * Send a fresh token over the open socket when the server reports that the
+   * current one expired. The connection and its subscriptions stay up.
    */
-  sendToChannel(channel: string, message: DaebusMessage): void {
-    if (!this.isConnected()) {
-      throw new DaebusConnectionError('WebSocket is not connected');
+  private async refreshAuth(): Promise<void> {
+    const ws = this.ws;
+    if (!this.auth || !ws) {
+      return;
+    }
+
+    try {
+      const token = await fetchToken(this.auth.token);
+      // Superseded by a new connection, which fetched its own token
+      if (this.ws === ws && ws.readyState === WS_OPEN) {
+        ws.send(JSON.stringify({ type: 'auth', token }));
+      }
+    } catch (error) {
+      this.emit('error', error as Error);
+    }
+  }
+
+  /**
+   * Subscribe/unsubscribe frame; patterns are flagged so the server matches them
+   */
+  private channelFrame(type: 'subscribe' | 'unsubscribe', channel: string): Record<string, unknown> {
+    return isChannelPattern(channel)
+      ? { type, channel, pattern: true }
+      : { type, channel };
+  }
+
+  /**
+   * Last sequence numbers seen on the channels a subscription covers, sent
+   * so the server can replay what was published in between
+   */
+  private resumeOffsets(channel: string): { offsets?: Record<string, number> } {
+    const offsets: Record<string, number> = {};
+    for (const [name, seq] of this.channelOffsets) {
+      if (matchChannel(channel, name)) {
+        offsets[name] = seq;
+      }
+    }
+    return Object.keys(offsets).length > 0 ? { offsets } : {};
+  }
+
+  /**
+   * Apply the replay outcome reported in a `subscribed` ack. `replayed: true`
+   * means every missed message follows; `false` means they are lost.
+   */
+  private handleReplay(channel: string, replayed: unknown): void {
+    if (replayed === true) {
+      // Older messages arriving now are replayed duplicates, not a restart
+      for (const name of this.resumedChannels) {
+        if (matchChannel(channel, name)) {
+          this.resumedChannels.delete(name);
+        }
+      }
+      this.setChannelStale(channel, false);
+      return;
+    }
+    if (replayed !== false) {
+      return;
+    }
+
+    // The server may have restarted its sequence, so accept whatever comes next
+    for (const [name, seq] of this.channelOffsets) {
+      if (matchChannel(channel, name)) {
+        this.channelOffsets.delete(name);
+        this.resumedChannels.delete(name);
+        this.emit('gap', { channel: name, expected: seq + 1 });
+      }
+    }
+  }
+
+  /**
+   * Record a message's sequence number. Returns false for messages already
+   * seen, e.g. when a replay overlaps live traffic; emits `gap` on a jump.
+   * A sequence going backwards on a new connection without a confirmed
+   * replay means the service restarted it, so the message is accepted.
+   */
+  private trackSequence(channel: string, seq: number): boolean {
+    const last = this.channelOffsets.get(channel);
+    const resumed = this.resumedChannels.delete(channel);
+    if (last !== undefined && seq <= last) {
+      if (!resumed) {
+        return false;
+      }
+      this.emit('gap', { channel, expected: last + 1, received: seq });
+    } else if (last !== undefined && seq > last + 1) {
+      this.emit('gap', { channel, expected: last + 1, received: seq });
+    }
+    this.channelOffsets.set(channel, seq);
+    return true;
+  }
+
+  /**
+   * Forget offsets of channels no subscription covers anymore
+   */
+  private pruneChannelOffsets(): void {
+    for (const channel of this.channelOffsets.keys()) {
+      const covered = [...this.subscribedChannels.keys()].some((name) => matchChannel(name, channel));
+      if (!covered) {
+        this.channelOffsets.delete(channel);
+        this.resumedChannels.delete(channel);
+      }
+    }
+  }
+
+  private markChannelsStale(): void {
+    for (const channel of this.channelOffsets.keys()) {
+      this.resumedChannels.add(channel);
+    }
+    for (const channel of this.subscribedChannels.keys()) {
+      this.setChannelStale(channel, true);
+    }
+  }
+
+  private setChannelStale(channel: string, stale: boolean): void {
+    const entry = this.subscribedChannels.get(channel);
+    if (!entry || entry.stale === stale) {
+      return;
+    }
+    entry.stale = stale;
+    this.emit('stale', channel, stale);
+  }
+
+  /**
+   * Settle a subscription from a `subscribed` or `subscribe_error` frame
+   */
+  private handleSubscriptionAck(message: unknown): void {
+    if (!isRecord(message) || typeof message.id !== 'string') {
+      return;
+    }
+    const pending = this.pendingSubscriptions.get(message.id);
+    if (!pending) {
+      return;
     }
 
+    this.pendingSubscriptions.delete(message.id);
+    if (message.type === 'subscribed') {
+      this.handleReplay(pending.channel, message.replayed);
+      pending.resolve();
+      return;
+    }
+
+    const reason = nonEmptyString(message.error) ?? nonEmptyString(message.message) ?? 'Subscription rejected';
+    pending.reject(new DaebusSubscriptionError(
+      `Failed to subscribe to ${pending.channel}: ${reason}`,
+      pending.channel,
+      nonEmptyString(message.code)
+    ));
+  }
+
+  /**
+   * Reject subscriptions whose ack can no longer arrive
+   */
+  private rejectPendingSubscriptions(error: Error): void {
+    const pending = [...this.pendingSubscriptions.values()];
+    this.pendingSubscriptions.clear();
+    for (const subscription of pending) {
+      subscription.reject(error);
+    }
+  }
+
+  /**
+   * Send a message to a specific channel
+   */
+  sendToChannel(channel: string, message: DaebusMessage): void {
     const channelMessage = {
       type: 'publish',
       channel,
       data: message,
     };
 
-    this.ws!.send(JSON.stringify(channelMessage));
+    this.send(channelMessage, message.request_id);
   }
 
   /**
@@ -230,8 +1095,8 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
     channel: C,
     data: ChannelData<T, C>
   ): void {
-    if (!this.isConnected()) {
-      throw new DaebusConnectionError('WebSocket is not connected');
+    if (isChannelPattern(String(channel))) {
+      throw new DaebusError(`Cannot broadcast to channel pattern ${String(channel)}`);
     }
 
     const broadcastMessage = {
@@ -240,31 +1105,156 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
       data,
     };
 
-    this.ws!.send(JSON.stringify(broadcastMessage));
+    this.send(broadcastMessage);
   }
 
   /**
    * Check if WebSocket is connected
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    // Nothing but `hello` may be sent before the handshake completes
+    return this.pendingHandshake === null && this.ws?.readyState === WS_OPEN;
+  }
+
+  /**
+   * Capabilities the server announced in the handshake; null without one
+   */
+  getCapabilities(): ServerCapabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Number of messages waiting in the outbound queue
+   */
+  getQueueSize(): number {
+    return this.queue?.size ?? 0;
+  }
+
+  /**
+   * Whether a message can be sent now or queued for the next open
+   */
+  private canSend(): boolean {
+    return this.isConnected() || (this.queue !== null &&
+      (this.connectionState === 'connecting' || this.connectionState === 'reconnecting'));
+  }
+
+  /**
+   * Send a message, or queue it while connecting or reconnecting
+   */
+  private send(message: unknown, requestId?: string): void {
+    if (!this.canSend()) {
+      throw new DaebusConnectionError('WebSocket is not connected');
+    }
+
+    const data = JSON.stringify(message);
+    if (this.isConnected()) {
+      this.ws!.send(data);
+      return;
+    }
+    this.queue?.enqueue(data, requestId);
+  }
+
+  /**
+   * Settle actions whose reply was lost with the socket: keep resendable ones
+   * for the next open and reject the rest with the close code
+   */
+  private interruptPendingRequests(code: number, reason: string, willReconnect: boolean): void {
+    for (const [requestId, request] of this.pendingRequests) {
+      if (request.awaitingResend || this.queue?.has(requestId)) {
+        continue; // Not sent on this socket
+      }
+
+      const error = new DaebusConnectionError(
+        `Connection closed with code ${code}${reason ? ` (${reason})` : ''} before a reply arrived`,
+        code
+      );
+      if (willReconnect && request.resend) {
+        request.awaitingResend = true;
+        request.onInterrupt?.(error);
+      } else {
+        this.pendingRequests.delete(requestId);
+        request.reject(error);
+      }
+    }
+  }
+
+  /**
+   * Send interrupted idempotent actions again after reconnecting
+   */
+  private resendInterrupted(): void {
+    for (const request of this.pendingRequests.values()) {
+      if (request.awaitingResend && request.resend) {
+        request.awaitingResend = false;
+        request.resend();
+      }
+    }
+  }
+
+  /**
+   * Reject the pending request of an action dropped from the queue
+   */
+  private rejectQueued({ requestId }: QueuedMessage, error: Error): void {
+    const request = requestId && this.pendingRequests.get(requestId);
+    if (request) {
+      this.pendingRequests.delete(requestId);
+      request.reject(error);
+    }
+  }
+
+  /**
+   * Validate actions sent to a service against that service's schema, and
+   * channel messages against the channels it declares. Used when several
+   * services share this connection. Returns a function that unregisters it.
+   */
+  registerSchema(serviceName: string, schema: ServiceSchema): () => void {
+    this.serviceSchemas.set(serviceName, schema);
+    return () => {
+      if (this.serviceSchemas.get(serviceName) === schema) {
+        this.serviceSchemas.delete(serviceName);
+      }
+    };
+  }
+
+  /**
+   * Whether messages on a subscribed channel or pattern may have been missed
+   * since the connection dropped; cleared by the next message or a replay
+   */
+  isChannelStale(channel: string): boolean {
+    return this.subscribedChannels.get(channel)?.stale ?? false;
+  }
+
+  /**
+   * Round-trip time of the last heartbeat in ms, or null before the first pong
+   */
+  getLatency(): number | null {
+    return this.latency;
   }
 
   /**
    * Handle incoming WebSocket messages
    */
-  private handleMessage(data: WebSocket.Data): void {
+  private handleMessage(data: unknown): void {
     try {
-      const message = JSON.parse(data.toString());
+      const message = JSON.parse(decodeMessageData(data));
 
       // Handle different message types
-      if (message.type === 'response') {
+      if (message.type === 'pong') {
+        this.handlePong();
+      } else if (this.pendingHandshake && (message.type === 'hello' || message.type === 'hello_error')) {
+        this.handleHello(message);
+      } else if (message.type === 'auth_expired') {
+        this.refreshAuth();
+      } else if (message.type === 'progress' || message.type === 'chunk') {
+        this.pendingRequests.get(message.request_id)?.onProgress?.(message.data);
+      } else if (message.type === 'subscribed' || message.type === 'subscribe_error') {
+        this.handleSubscriptionAck(message);
+      } else if (message.type === 'response') {
         this.handleResponse(message);
       } else if (message.type === 'channel_message') {
         this.handleChannelMessage(message);
       } else if (message.channel && message.data) {
         // Direct channel message
-        this.emit(`channel:${message.channel}`, message.data);
+        this.handleChannelMessage(message);
       } else if (message.request_id && this.pendingRequests.has(message.request_id)) {
         // Response to a request
         this.handleResponse(message);
@@ -296,29 +1286,154 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
   }
 
   /**
-   * Handle channel messages
+   * Channel definition used for validation, from the client's own schema or
+   * else the schema of the first service subscribed to `target` that
+   * declares the channel
+   */
+  private channelDefinition(
+    target: string,
+    lookup: (channels: ServiceSchema['channels']) => ServiceSchema['channels'][string] | undefined
+  ): ServiceSchema['channels'][string] | undefined {
+    if (!this.options.validate) {
+      return undefined;
+    }
+
+    const services = this.subscribedChannels.get(target)?.services ?? [];
+    const schemas = [this.options.schema, ...services.map((name) => this.serviceSchemas.get(name))];
+    for (const schema of schemas) {
+      const definition = schema && lookup(schema.channels);
+      if (definition) {
+        return definition;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Handle channel messages. Handlers on the concrete channel and on every
+   * subscribed pattern matching it receive the data and the channel name.
    */
   private handleChannelMessage(message: any): void {
-    const { channel, data } = message;
-    this.emit(`channel:${channel}`, data);
+    const { channel, data, seq } = message;
+
+    const targets = [...this.subscribedChannels.keys()].filter(
+      (name) => name !== channel && isChannelPattern(name) && matchChannel(name, channel)
+    );
+    const subscribed = targets.length > 0 || this.subscribedChannels.has(channel);
+    if (subscribed && typeof seq === 'number' && !this.trackSequence(channel, seq)) {
+      return;
+    }
+    if (targets.length === 0 || this.subscribedChannels.has(channel)) {
+      targets.unshift(channel);
+    }
+
+    let rejected = false;
+    for (const target of targets) {
+      const definition = this.channelDefinition(
+        target,
+        target === channel
+          ? (channels) => findChannel(channels, channel)
+          : (channels) => channels[target]
+      );
+
+      if (!definition) {
+        this.setChannelStale(target, false);
+        this.emit(`channel:${target}`, data, channel);
+        continue;
+      }
+
+      // Drop messages that don't match the channel schema
+      const result = definition.schema.safeParse(data);
+      if (result.success) {
+        this.setChannelStale(target, false);
+        this.emit(`channel:${target}`, result.data, channel);
+      } else if (!rejected) {
+        rejected = true;
+        this.emit(
+          'invalid_message',
+          channel,
+          data,
+          new DaebusValidationError(
+            `Invalid message on channel ${channel}`,
+            'response',
+            result.error.issues
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Reconnect now, skipping any pending backoff delay and resetting the
+   * attempt count. Also revives a client that gave up reconnecting.
+   */
+  async reconnect(): Promise<void> {
+    if (this.isConnected()) {
+      return;
+    }
+    if (this.connectAttempt) {
+      return this.connectAttempt;
+    }
+
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.setState('reconnecting');
+
+    try {
+      await this.connect();
+    } catch (error) {
+      if (this.connectionState === 'reconnecting') {
+        this.scheduleReconnect();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give up on the connection: drop queued messages and actions waiting to
+   * be resent
+   */
+  private fail(error: Error, code?: number): void {
+    this.setState('failed', code);
+    this.queue?.clear(error);
+    for (const [requestId, request] of this.pendingRequests) {
+      if (request.awaitingResend) {
+        this.pendingRequests.delete(requestId);
+        request.reject(error);
+      }
+    }
   }
 
   /**
    * Schedule automatic reconnection
    */
-  private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= (this.options.maxReconnectAttempts ?? 5)) {
-      this.emit('error', new DaebusConnectionError('Max reconnection attempts exceeded'));
+  private scheduleReconnect(code?: number): void {
+    const { maxAttempts } = this.reconnectPolicy;
+    if (this.reconnectAttempts >= maxAttempts) {
+      const error = new DaebusConnectionError('Max reconnection attempts exceeded');
+      this.fail(error, code);
+      this.emit('error', error);
       return;
     }
 
-    this.isReconnecting = true;
     this.reconnectAttempts++;
+    this.setState('reconnecting', code);
 
-    const delay = this.options.reconnectInterval ?? 5000;
-    setTimeout(() => {
-      if (this.isReconnecting) {
+    const delay = computeBackoff(this.reconnectPolicy, this.reconnectAttempts);
+    this.emit('reconnecting', this.reconnectAttempts, delay);
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.connectionState === 'reconnecting') {
         this.connect().catch((error) => {
+          // Stop when disconnect() was called during the attempt
+          if (this.connectionState !== 'reconnecting') {
+            if (error instanceof DaebusProtocolError) {
+              this.emit('error', error);
+            }
+            return;
+          }
           this.emit('error', error);
           this.scheduleReconnect();
         });
@@ -326,16 +1441,138 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
     }, delay);
   }
 
+  private setState(next: ConnectionState, code?: number): void {
+    const previous = this.connectionState;
+    if (previous === next) {
+      return;
+    }
+
+    this.connectionState = next;
+    const change: ConnectionStateChange = { previous, next, attempt: this.reconnectAttempts, code };
+    this.emit('stateChange', change);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Reconnect straight away when the browser goes back online or the page
+   * becomes visible, instead of waiting out the backoff delay
+   */
+  private listenForResume(): void {
+    if (this.removeResumeListeners || !this.reconnectPolicy.onResume) {
+      return;
+    }
+
+    const target = globalThis as Partial<Pick<Window, 'addEventListener' | 'removeEventListener' | 'document'>>;
+    if (typeof target.addEventListener !== 'function') {
+      return;
+    }
+
+    const onResume = () => {
+      if (target.document?.visibilityState === 'hidden' || !this.shouldReconnect) {
+        return;
+      }
+      // Connection errors are already reported through the 'error' event
+      this.reconnect().catch(() => {});
+    };
+
+    target.addEventListener('online', onResume);
+    target.document?.addEventListener('visibilitychange', onResume);
+    this.removeResumeListeners = () => {
+      target.removeEventListener?.('online', onResume);
+      target.document?.removeEventListener('visibilitychange', onResume);
+    };
+  }
+
+  /**
+   * Ping the server after each interval; fail the socket when no pong
+   * arrives in time, since a half-open connection never closes by itself
+   */
+  private startHeartbeat(ws: WebSocketLike, onTimeout: () => void): void {
+    if (!this.options.heartbeat) {
+      return;
+    }
+
+    this.stopHeartbeat();
+    this.heartbeat = { ws, onTimeout };
+    this.schedulePing();
+  }
+
+  private schedulePing(): void {
+    const current = this.heartbeat;
+    if (!current) {
+      return;
+    }
+
+    const { interval = 30000, timeout = 10000 } = this.options.heartbeat ?? {};
+    this.heartbeatTimer = setTimeout(() => {
+      this.heartbeatTimer = null;
+      if (current.ws.readyState !== WS_OPEN) {
+        return;
+      }
+
+      this.pingSentAt = Date.now();
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        this.emit('error', new DaebusTimeoutError(`No pong received within ${timeout}ms`));
+        current.onTimeout();
+      }, timeout);
+      current.ws.send(JSON.stringify({ type: 'ping', timestamp: this.pingSentAt }));
+    }, interval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+    this.heartbeat = null;
+    this.pingSentAt = null;
+  }
+
+  /**
+   * Record the round-trip time and schedule the next ping
+   */
+  private handlePong(): void {
+    if (this.pingSentAt === null) {
+      return; // Unsolicited pong
+    }
+
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+    this.latency = Date.now() - this.pingSentAt;
+    this.pingSentAt = null;
+    this.emit('latency', this.latency);
+    this.schedulePing();
+  }
+
   /**
    * Resubscribe to all channels after reconnection
    */
   private resubscribeToChannels(): void {
-    for (const channel of this.subscribedChannels) {
-      const subscribeMessage = {
-        type: 'subscribe',
-        channel,
-      };
-      this.ws!.send(JSON.stringify(subscribeMessage));
+    for (const [channel, entry] of this.subscribedChannels) {
+      entry.ready = this.requestSubscribe(channel);
+      entry.ready.catch((error) => {
+        // Kept for the next reconnect when the connection dropped again
+        if (error instanceof DaebusConnectionError || this.subscribedChannels.get(channel) !== entry) {
+          return;
+        }
+        this.subscribedChannels.delete(channel);
+        this.pruneChannelOffsets();
+        this.removeAllListeners(`channel:${channel}`);
+        this.emit('subscription_error', channel, error);
+      });
     }
   }
 
@@ -343,6 +1580,6 @@ export class DaebusWebSocketClient<T extends ServiceSchema = ServiceSchema> exte
    * Generate unique request ID
    */
   private generateRequestId(): string {
-    return `req_${Date.now()}_${++this.requestCounter}`;
+    return (this.options.generateRequestId ?? randomRequestId)();
   }
 } 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { DaebusProtocolError } from '@/types';
+import { isRecord, nonEmptyString } from '@/utils/guards';
+
+/** Version of the Daebus WebSocket protocol this client speaks */
+export const PROTOCOL_VERSION = 1;
+
+export const CLIENT_NAME = '@daebus/client';
+// Kept in sync with package.json
+export const CLIENT_VERSION = '0.1.0';
+
+export interface HandshakeOptions {
+  /** How long to wait for the server's `hello`, in ms (the client timeout) */
+  timeout?: number;
+  clientName?: string;
+  clientVersion?: string;
+  /** Features advertised in addition to the ones the client supports */
+  features?: string[];
+}
+
+/**
+ * What the server agreed to in its `hello` reply
+ */
+export interface ServerCapabilities {
+  protocol: number;
+  server?: { name?: string; version?: string };
+  features: string[];
+  /** Server limits such as `maxMessageSize` or `maxSubscriptions` */
+  limits: Record<string, number>;
+}
+
+/**
+ * The `hello` frame sent right after the socket opens
+ */
+export function createHello(options: HandshakeOptions, features: string[]) {
+  return {
+    type: 'hello',
+    protocol: PROTOCOL_VERSION,
+    client: {
+      name: options.clientName ?? CLIENT_NAME,
+      version: options.clientVersion ?? CLIENT_VERSION,
+    },
+    features: [...new Set([...features, ...(options.features ?? [])])],
+  };
+}
+
+/**
+ * Read the server's reply to `hello`. Throws a DaebusProtocolError when the
+ * server rejected the handshake or speaks another protocol version.
+ */
+export function parseHello(message: unknown): ServerCapabilities {
+  const hello = isRecord(message) ? message : {};
+  const protocol = typeof hello.protocol === 'number' ? hello.protocol : undefined;
+
+  if (hello.type === 'hello_error') {
+    const reason = nonEmptyString(hello.error) ?? nonEmptyString(hello.message) ?? 'Handshake rejected';
+    throw new DaebusProtocolError(`Server rejected the handshake: ${reason}`, protocol);
+  }
+
+  if (protocol !== PROTOCOL_VERSION) {
+    throw new DaebusProtocolError(
+      `Server speaks protocol version ${String(hello.protocol)}, client supports ${PROTOCOL_VERSION}`,
+      protocol
+    );
+  }
+
+  return {
+    protocol,
+    server: isRecord(hello.server) ? hello.server as ServerCapabilities['server'] : undefined,
+    features: Array.isArray(hello.features)
+      ? hello.features.filter((feature): feature is string => typeof feature === 'string')
+      : [],
+    limits: isRecord(hello.limits) ? hello.limits as Record<string, number> : {},
+  };
+}
@@ -0,0 +1,59 @@
+import { ServiceSchema } from '@/types';
+import { DaebusWebSocketClient, WebSocketClientOptions } from './client';
+
+interface SharedConnection {
+  client: DaebusWebSocketClient<ServiceSchema>;
+  refs: number;
+}
+
+/**
+ * Shares one WebSocket client per URL between DaebusClients. Replies are
+ * routed by request ID and channel messages by channel, so any number of
+ * services can use the same socket. The socket is closed once the last
+ * client holding it releases it.
+ */
+export class WebSocketConnectionManager {
+  private connections = new Map<string, SharedConnection>();
+
+  /**
+   * Get the client for `options.url`, creating it on first use. Later callers
+   * share the first caller's connection options.
+   */
+  acquire<T extends ServiceSchema>(options: WebSocketClientOptions<T>): DaebusWebSocketClient<T> {
+    let connection = this.connections.get(options.url);
+    if (!connection) {
+      connection = {
+        client: new DaebusWebSocketClient<T>(options) as DaebusWebSocketClient<ServiceSchema>,
+        refs: 0,
+      };
+      this.connections.set(options.url, connection);
+    }
+    connection.refs++;
+    // Schemas are registered per service, so the shared client serves any of them
+    return connection.client as DaebusWebSocketClient<T>;
+  }
+
+  /**
+   * Give up one reference to a client; the last release disconnects it
+   */
+  release<T extends ServiceSchema>(client: DaebusWebSocketClient<T>): void {
+    for (const [url, connection] of this.connections) {
+      if (connection.client !== client) {
+        continue;
+      }
+
+      if (--connection.refs === 0) {
+        this.connections.delete(url);
+        client.disconnect();
+      }
+      return;
+    }
+  }
+
+  /**
+   * Number of clients holding the connection to a URL
+   */
+  getRefCount(url: string): number {
+    return this.connections.get(url)?.refs ?? 0;
+  }
+}
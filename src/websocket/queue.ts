@@ -0,0 +1,101 @@
+import { DaebusConnectionError, DaebusTimeoutError } from '@/types';
+
+export interface OutboundQueueOptions {
+  /** Maximum number of queued messages (100) */
+  maxSize?: number;
+  /** How long a message may wait for the connection, in ms (30000) */
+  ttl?: number;
+}
+
+export interface QueuedMessage {
+  data: string;
+  expiresAt: number;
+  /** Set for queued actions so their pending request can be rejected */
+  requestId?: string;
+}
+
+/**
+ * FIFO buffer for messages sent while the socket is connecting or reconnecting
+ */
+export class OutboundQueue {
+  private messages: QueuedMessage[] = [];
+  private maxSize: number;
+  private ttl: number;
+
+  constructor(
+    options: OutboundQueueOptions,
+    private onDrop: (message: QueuedMessage, error: Error) => void
+  ) {
+    this.maxSize = options.maxSize ?? 100;
+    this.ttl = options.ttl ?? 30000;
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  /**
+   * Queue a serialized message; throws when the queue is full
+   */
+  enqueue(data: string, requestId?: string): void {
+    this.prune();
+    if (this.messages.length >= this.maxSize) {
+      throw new DaebusConnectionError(`Outbound queue is full (${this.maxSize} messages)`);
+    }
+    this.messages.push({ data, requestId, expiresAt: Date.now() + this.ttl });
+  }
+
+  has(requestId: string): boolean {
+    return this.messages.some((message) => message.requestId === requestId);
+  }
+
+  /**
+   * Remove a queued action; returns false if it was not queued
+   */
+  remove(requestId: string): boolean {
+    const index = this.messages.findIndex((message) => message.requestId === requestId);
+    if (index === -1) {
+      return false;
+    }
+    this.messages.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Send every unexpired message in the order it was queued
+   */
+  flush(send: (data: string) => void): void {
+    this.prune();
+    const messages = this.messages;
+    this.messages = [];
+    for (const message of messages) {
+      send(message.data);
+    }
+  }
+
+  /**
+   * Drop every queued message with the given error
+   */
+  clear(error: Error): void {
+    const messages = this.messages;
+    this.messages = [];
+    for (const message of messages) {
+      this.onDrop(message, error);
+    }
+  }
+
+  private prune(now: number = Date.now()): void {
+    const expired = this.messages.filter((message) => message.expiresAt <= now);
+    if (expired.length === 0) {
+      return;
+    }
+
+    this.messages = this.messages.filter((message) => message.expiresAt > now);
+    for (const message of expired) {
+      this.onDrop(
+        message,
+        new DaebusTimeoutError('Queued message expired before the connection opened', 'deadline')
+      );
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Progress updates of a streaming action. Iterating yields each update until
+ * the action's final response arrives; `result` resolves with that response.
+ * A failed action rejects `result` and throws from the iterator.
+ */
+export interface ActionStream<P, O> extends AsyncIterable<P> {
+  readonly requestId: string;
+  readonly result: Promise<O>;
+}
+
+/**
+ * Buffers progress updates until the consumer pulls them. Updates are kept
+ * while nobody iterates so a late `for await` still sees every update.
+ */
+export class ProgressBuffer<P> implements AsyncIterable<P> {
+  private buffered: P[] = [];
+  private waiting: Array<{
+    resolve: (result: IteratorResult<P>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private failure: { error: unknown } | null = null;
+
+  push(value: P): void {
+    if (this.done) {
+      return;
+    }
+
+    const next = this.waiting.shift();
+    if (next) {
+      next.resolve({ value, done: false });
+    } else {
+      this.buffered.push(value);
+    }
+  }
+
+  end(): void {
+    this.done = true;
+    for (const next of this.waiting.splice(0)) {
+      next.resolve({ value: undefined, done: true });
+    }
+  }
+
+  fail(error: unknown): void {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    if (this.waiting.length === 0) {
+      // Thrown once the consumer drains the buffered updates
+      this.failure = { error };
+    }
+    for (const next of this.waiting.splice(0)) {
+      next.reject(error);
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<P> {
+    return {
+      next: () => {
+        if (this.buffered.length > 0) {
+          return Promise.resolve({ value: this.buffered.shift() as P, done: false });
+        }
+        if (this.failure) {
+          const { error } = this.failure;
+          this.failure = null;
+          return Promise.reject(error);
+        }
+        if (this.done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          this.waiting.push({ resolve, reject });
+        });
+      },
+      // Leaving the loop early only stops buffering; the action keeps running
+      return: () => {
+        this.done = true;
+        this.buffered = [];
+        this.failure = null;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}
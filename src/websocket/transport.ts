@@ -0,0 +1,74 @@
+/**
+ * Minimal WebSocket surface the client relies on. Both the browser's native
+ * WebSocket and the `ws` package implement it through `addEventListener`.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  /** Browsers deliver binary frames as Blobs unless this is 'arraybuffer' */
+  binaryType?: string;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'open', listener: () => void): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  addEventListener(type: 'close', listener: (event: { code: number; reason: string }) => void): void;
+  addEventListener(type: 'error', listener: (event: unknown) => void): void;
+}
+
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[]
+) => WebSocketLike;
+
+// readyState values shared by every implementation
+export const WS_CONNECTING = 0;
+export const WS_OPEN = 1;
+export const WS_CLOSING = 2;
+export const WS_CLOSED = 3;
+
+/**
+ * Pick the WebSocket implementation: the one passed in, the native browser
+ * WebSocket when present, and otherwise the `ws` package (loaded lazily so
+ * browser bundles never execute it)
+ */
+export async function resolveWebSocket(
+  implementation?: WebSocketConstructor
+): Promise<WebSocketConstructor> {
+  if (implementation) {
+    return implementation;
+  }
+
+  const native = (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+  if (native) {
+    return native;
+  }
+
+  const { default: NodeWebSocket } = await import('ws');
+  return NodeWebSocket as unknown as WebSocketConstructor;
+}
+
+/**
+ * Decode message event data (string, Buffer, ArrayBuffer or typed array) to text
+ */
+export function decodeMessageData(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return new TextDecoder().decode(data);
+  }
+  return String(data);
+}
+
+/**
+ * Turn a WebSocket error event into an Error
+ */
+export function toError(event: unknown): Error {
+  if (event instanceof Error) {
+    return event;
+  }
+  const { error, message } = (event ?? {}) as { error?: unknown; message?: unknown };
+  if (error instanceof Error) {
+    return error;
+  }
+  return new Error(typeof message === 'string' && message ? message : 'WebSocket error');
+}